@@ -1,38 +1,141 @@
-import type { ExtensionAPI, ExtensionCommandContext } from "@mariozechner/pi-coding-agent";
+import {
+	AuthStorage,
+	createEventBus,
+	ModelRegistry,
+	parseFrontmatter,
+	type ExecOptions,
+	type ExtensionAPI,
+	type ExtensionCommandContext,
+} from "@mariozechner/pi-coding-agent";
 import { complete } from "@mariozechner/pi-ai";
+import { spawnSync } from "node:child_process";
+import { createHash } from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
+import { pathToFileURL } from "node:url";
+
+// Where an app was found: a workspace declaration, the fallback directory walk, the repo root itself,
+// or the manifest of a non-JavaScript project.
+type AppSource =
+	| "package.json"
+	| "pnpm-workspace.yaml"
+	| "lerna.json"
+	| "nx"
+	| "turbo.json"
+	| "walk"
+	| "root"
+	| "pyproject.toml"
+	| "setup.py"
+	| "go.mod"
+	| "go.work"
+	| "Cargo.toml"
+	| "pom.xml"
+	| "settings.gradle"
+	| "build.gradle";
+
+type LanguageShare = {
+	language: string;
+	files: number;
+	lines: number;
+	percentage: number;
+};
+
+type LintTool = "eslint" | "biome" | "oxlint" | "prettier" | "dprint" | "ruff" | "golangci-lint";
+
+type LintRuleState = "off" | "warn" | "error";
+
+type LintConfig = {
+	tool: LintTool;
+	file: string;
+	rules: Record<string, LintRuleState>;
+	// Shared configs and presets (`extends`, `plugin.configs.recommended`, Biome "recommended") whose rules are not listed.
+	presets: string[];
+};
+
+// Effective compiler strictness of an app's tsconfig after following its `extends` chain.
+type TypeScriptProfile = {
+	config: string;
+	chain: string[];
+	unresolved: string[];
+	strict: boolean;
+	flags: Record<string, boolean>;
+};
+
+type CoverageFormat = "lcov" | "cobertura" | "coverage.py" | "istanbul" | "go";
+
+type CoverageMetric = {
+	covered: number;
+	total: number;
+	percentage: number;
+};
+
+// Per-file counts read from a coverage artifact; Go cover profiles count statements as lines and have no branches.
+type CoverageRecord = {
+	file: string;
+	linesCovered: number;
+	linesTotal: number;
+	branchesCovered: number;
+	branchesTotal: number;
+};
+
+type CoverageArtifact = {
+	file: string;
+	format: CoverageFormat;
+	mtimeMs: number;
+	records: CoverageRecord[];
+};
+
+type CoverageSummary = {
+	file: string;
+	format: CoverageFormat;
+	modifiedAt: string;
+	lines: CoverageMetric;
+	branches?: CoverageMetric;
+};
 
 type AppInfo = {
 	name: string;
 	path: string;
 	relativePath: string;
 	type: string;
+	source: AppSource;
 	description?: string;
 	packageJson?: Record<string, unknown>;
 	scripts?: Record<string, string>;
 	dependencies?: Record<string, string>;
 	devDependencies?: Record<string, string>;
+	languages?: LanguageShare[];
+	lint?: LintConfig[];
+	typescript?: TypeScriptProfile;
+	coverage?: CoverageSummary;
+	framework?: string;
+	confidence?: "high" | "medium" | "low";
 };
 
 type CriterionTier = "BASIC" | "INTERMEDIATE" | "ADVANCED";
 
-type Criterion = {
+// Maturity ladder: 1 Functional, 2 Documented, 3 Standardized, 4 Optimized, 5 Autonomous.
+// Levels are assigned per criterion and are independent of tier, which describes effort.
+type CriterionLevel = 1 | 2 | 3 | 4 | 5;
+
+export type Criterion = {
 	id: string;
 	category: string;
 	tier: CriterionTier;
-	level: number;
+	level: CriterionLevel;
 	title: string;
 	description: string;
 	recommendation: string;
 	scope: "repo" | "app";
+	naReason?: string;
+	customSource?: string;
 	checkRepo?: (repo: RepoContext) => CheckResult;
 	checkApp?: (app: AppInfo, repo: RepoContext) => CheckResult;
 };
 
 type CheckStatus = "pass" | "fail" | "na";
 
-type CheckResult = {
+export type CheckResult = {
 	status: CheckStatus;
 	details: string;
 };
@@ -50,17 +153,139 @@ type CriterionResult = {
 	denominator: number;
 	passed: boolean;
 	applicable: boolean;
+	reasons: { target: string; status: CheckStatus; details: string; waived?: boolean }[];
+	verdicts?: { heuristic: CriterionVerdict; model: CriterionVerdict };
+	disagreement?: boolean;
+	evidence?: VerifiedEvidence[];
+	unverifiedPass?: boolean;
+	waived?: boolean;
+	waivers?: WaiverState[];
+};
+
+type EvidenceRef = {
+	path: string;
+	startLine?: number;
+	endLine?: number;
+};
+
+type VerifiedEvidence = EvidenceRef & { verified: boolean };
+
+type EvidenceMode = "downgrade" | "flag";
+
+type CriterionVerdict = {
+	status: CheckStatus;
+	numerator: number;
+	denominator: number;
 	reasons: { target: string; status: CheckStatus; details: string }[];
 };
 
-type RepoContext = {
+type ReconcilePolicy = "heuristic-wins" | "model-wins" | "require-agreement";
+
+type Disagreement = {
+	id: string;
+	title: string;
+	heuristic: CheckStatus;
+	model: CheckStatus;
+	final: CheckStatus;
+};
+
+type Waiver = {
+	id: string;
+	app?: string;
+	justification: string;
+	owner: string;
+	expires: string;
+};
+
+// "waived" excluded a failing check, "expired" is past its expiry date, "unused" matched nothing that failed.
+type WaiverState = Waiver & { source: string; status: "waived" | "expired" | "unused" };
+
+type IgnoreRule = {
+	pattern: RegExp;
+	negate: boolean;
+	dirOnly: boolean;
+	base: string;
+};
+
+type IndexedFile = {
+	size: number;
+	mtimeMs: number;
+};
+
+type ScanSummary = {
+	source: "git" | "walk";
+	durationMs: number;
+	files: number;
+	directories: number;
+	bytes: number;
+};
+
+type FileIndex = {
+	root: string;
+	source: "git" | "walk";
+	files: string[];
+	// Sorted, like `files`; a Set so directory lookups stay constant-time on large monorepos.
+	dirs: Set<string>;
+	entries: Map<string, IndexedFile>;
+	contents: Map<string, string | undefined>;
+	scan: ScanSummary;
+};
+
+type WorkflowStep = {
+	index: number;
+	id?: string;
+	name?: string;
+	uses?: string;
+	run?: string;
+	with: Record<string, string>;
+};
+
+type WorkflowJob = {
+	id: string;
+	name?: string;
+	runsOn: string[];
+	needs: string[];
+	environment?: string;
+	matrix: boolean;
+	cache: boolean;
+	// Deployment strategy where the provider declares one (Azure `runOnce`, `rolling`, `canary`).
+	strategy?: string;
+	uses?: string;
+	steps: WorkflowStep[];
+};
+
+type CiProvider = "github" | "gitlab" | "circleci" | "azure" | "bitbucket" | "buildkite" | "jenkins";
+
+// One pipeline definition file. Triggers use GitHub event names (`push`, `pull_request`, `schedule`,
+// `workflow_dispatch`) whatever the provider.
+type CiWorkflow = {
+	file: string;
+	provider: CiProvider;
+	name?: string;
+	triggers: string[];
+	schedules: string[];
+	paths: string[];
+	jobs: WorkflowJob[];
+	error?: string;
+};
+
+type WorkflowMatch = {
+	workflow: CiWorkflow;
+	job?: WorkflowJob;
+	step?: WorkflowStep;
+};
+
+export type RepoContext = {
 	root: string;
 	repoName: string;
 	languages: string[];
 	apps: AppInfo[];
 	files: Set<string>;
 	workflows: string[];
+	ciWorkflows: CiWorkflow[];
 	readme?: string;
+	index: FileIndex;
+	coverageThreshold: number;
 };
 
 type Report = {
@@ -68,8 +293,19 @@ type Report = {
 	repoRoot: string;
 	repoName: string;
 	languages: string[];
+	languageBreakdown: LanguageShare[];
 	apps: AppInfo[];
 	model?: { provider: string; id: string };
+	scoringMode: ScoringMode;
+	fallback?: { model: ModelRef; reason: string };
+	reconciliation?: { policy: ReconcilePolicy; disagreements: Disagreement[] };
+	modelValidation?: ModelValidation;
+	modelCache?: { hits: number; misses: number; refreshed: boolean };
+	scan?: ScanSummary;
+	coverage?: { lines: CoverageMetric; branches?: CoverageMetric; apps: number; threshold: number };
+	config: ResolvedConfig;
+	waivers?: WaiverState[];
+	gate?: GateVerdict;
 	aiPrompt?: string;
 	maturity: {
 		levelAchieved: number;
@@ -82,28 +318,45 @@ type Report = {
 		levelScores: { level: number; passed: number; total: number; passRate: number }[];
 	};
 	categories: { name: string; passed: number; total: number; passRate: number | null }[];
-	history: { generatedAt: string; level: number; score: number }[];
+	history: { generatedAt: string; level: number; score: number; coverage?: number }[];
 	criteria: CriterionResult[];
 	actionItems: { title: string; recommendation: string; level: number }[];
 	paths: { html: string; json: string; md: string };
 };
 
-const EXCLUDED_DIRS = new Set(["node_modules", ".git", ".pi", "dist", "build", "out", ".next", "coverage"]);
+const LEVELS: CriterionLevel[] = [1, 2, 3, 4, 5];
+// A level is unlocked when this share of its applicable criteria pass and every lower level is unlocked.
+const LEVEL_PASS_THRESHOLD = 0.8;
+
 const MAX_WALK_DEPTH = 4;
 
+// Minimum line coverage (percent) for the measured coverage criterion, unless overridden.
+const DEFAULT_COVERAGE_THRESHOLD = 80;
+
 type ModelRef = { provider: string; id: string };
 
+// "fallback" marks a model run that produced no usable response, so the heuristic checks were reported instead.
+type ScoringMode = "model" | "offline" | "fallback";
+
 type ContentBlock = {
 	type?: string;
 	text?: string;
 };
 
+type ModelAppScore = {
+	path: string;
+	status: CheckStatus;
+	details?: string;
+};
+
 type ModelCriterionScore = {
 	id: string;
 	status: CheckStatus;
 	numerator?: number;
 	denominator?: number;
 	details?: string;
+	evidence?: EvidenceRef[];
+	apps?: ModelAppScore[];
 };
 
 type ModelReviewResponse = {
@@ -114,32 +367,397 @@ type ModelReviewResponse = {
 	narrativeMarkdown?: string;
 };
 
+type ModelValidation = {
+	valid: boolean;
+	retries: number;
+	errors: string[];
+};
+
+type ScoringCache = {
+	dir: string;
+	refresh: boolean;
+	criteria: Criterion[];
+};
+
+type CachedScoring = {
+	key: string;
+	createdAt: string;
+	model: ModelRef;
+	parsed?: ModelReviewResponse;
+	raw: string;
+	validation: ModelValidation;
+};
+
+type CriterionOverride = {
+	enabled?: boolean;
+	level?: CriterionLevel;
+	tier?: CriterionTier;
+	category?: string;
+	title?: string;
+	recommendation?: string;
+	na?: string;
+};
+
+type ReportDefaults = {
+	model?: string;
+	outputDir?: string;
+	policy?: ReconcilePolicy;
+	retries?: number;
+	evidence?: EvidenceMode;
+	concurrency?: number;
+	coverageThreshold?: number;
+};
+
+type GateThresholds = {
+	minLevel?: number;
+	minScore?: number;
+	mustPass?: string[];
+	noRegression?: boolean;
+};
+
+type GateVerdict = {
+	passed: boolean;
+	thresholds: GateThresholds;
+	failures: string[];
+	previous?: { generatedAt: string; level: number; score: number };
+};
+
+type ReadinessConfig = {
+	criteria?: Record<string, CriterionOverride>;
+	customCriteria?: CustomCriterionDefinition[];
+	defaults?: ReportDefaults;
+	gate?: GateThresholds;
+};
+
+type CustomCondition =
+	| { file: string | string[] }
+	| { glob: string }
+	| { dependency: string | string[] }
+	| { workflow: string }
+	| { script: string | string[] }
+	| { all: CustomCondition[] }
+	| { any: CustomCondition[] }
+	| { not: CustomCondition };
+
+type CustomCriterionDefinition = {
+	id: string;
+	category: string;
+	tier?: CriterionTier;
+	level: CriterionLevel;
+	title: string;
+	description?: string;
+	recommendation: string;
+	scope: "repo" | "app";
+	appTypes?: string[];
+	check: CustomCondition;
+};
+
+type ResolvedConfig = {
+	source?: string;
+	customCriteria: { id: string; source: string }[];
+	criteria: Record<string, CriterionOverride>;
+	disabled: string[];
+	settings: {
+		model?: string;
+		outputDir: string;
+		scoringMode: ScoringMode;
+		policy: ReconcilePolicy;
+		retries: number;
+		evidence: EvidenceMode;
+		chunked: boolean;
+		concurrency: number;
+		coverageThreshold: number;
+		refresh: boolean;
+		gate?: GateThresholds;
+	};
+	warnings: string[];
+};
+
 let lastSelectedModel: ModelRef | undefined;
 
-const parseModelArg = (args: string) => {
+// Other extensions contribute criteria by emitting { source, criteria } on READINESS_REGISTER_EVENT,
+// or by calling register(source, criteria) when READINESS_COLLECT_EVENT fires at the start of each report.
+const READINESS_REGISTER_EVENT = "readiness-report:register-criteria";
+const READINESS_COLLECT_EVENT = "readiness-report:collect-criteria";
+const registeredCriteria = new Map<string, unknown>();
+
+const parseOptionArg = (args: string, name: string) => {
 	const tokens = args.split(/\s+/).filter(Boolean);
-	const modelToken = tokens.find((token) => token.startsWith("model="));
-	if (modelToken) {
-		return modelToken.replace("model=", "").trim();
+	const optionToken = tokens.find((token) => token.startsWith(`${name}=`));
+	if (optionToken) {
+		return optionToken.replace(`${name}=`, "").trim();
 	}
-	const modelIndex = tokens.findIndex((token) => token === "--model");
-	if (modelIndex >= 0 && tokens[modelIndex + 1]) {
-		return tokens[modelIndex + 1].trim();
+	const optionIndex = tokens.findIndex((token) => token === `--${name}`);
+	if (optionIndex >= 0 && tokens[optionIndex + 1]) {
+		return tokens[optionIndex + 1].trim();
 	}
 	return undefined;
 };
 
-const resolveModelRef = (ctx: ExtensionCommandContext, args: string) => {
+const parseModelArg = (args: string) => parseOptionArg(args, "model");
+
+const reconcilePolicies: ReconcilePolicy[] = ["heuristic-wins", "model-wins", "require-agreement"];
+
+const resolveReconcilePolicy = (args: string, fallback?: ReconcilePolicy): ReconcilePolicy => {
+	const value = parseOptionArg(args, "policy") ?? fallback;
+	if (!value) return "model-wins";
+	if (!reconcilePolicies.includes(value as ReconcilePolicy)) {
+		throw new Error(`Unknown scoring policy "${value}". Use one of: ${reconcilePolicies.join(", ")}.`);
+	}
+	return value as ReconcilePolicy;
+};
+
+const hasFlag = (args: string, flags: string[]) => args.split(/\s+/).some((token) => flags.includes(token));
+
+const isOfflineMode = (args: string) => hasFlag(args, ["--offline", "--no-ai"]);
+
+const resolveEvidenceMode = (args: string, fallback?: EvidenceMode): EvidenceMode => {
+	const value = parseOptionArg(args, "evidence") ?? fallback;
+	if (!value) return "downgrade";
+	if (value !== "downgrade" && value !== "flag") {
+		throw new Error(`Unknown evidence mode "${value}". Use downgrade or flag.`);
+	}
+	return value;
+};
+
+const resolveMaxRetries = (args: string, fallback?: number) => {
+	const value = parseOptionArg(args, "retries") ?? fallback?.toString();
+	if (!value) return 2;
+	const retries = Number(value);
+	if (!Number.isInteger(retries) || retries < 0) {
+		throw new Error(`Invalid retries value "${value}". Use a non-negative integer.`);
+	}
+	return retries;
+};
+
+// Gate mode is on with --gate or any threshold option; options override the config's gate thresholds.
+const resolveGate = (args: string, fallback?: GateThresholds): GateThresholds | undefined => {
+	const minLevel = parseOptionArg(args, "min-level");
+	const minScore = parseOptionArg(args, "min-score");
+	const mustPass = parseOptionArg(args, "must-pass");
+	const noRegression = hasFlag(args, ["--no-regression"]);
+	const requested = [minLevel, minScore, mustPass].some((value) => value !== undefined) || noRegression;
+	if (!requested && !hasFlag(args, ["--gate"])) return undefined;
+	const gate: GateThresholds = { ...fallback };
+	if (minLevel !== undefined) {
+		const level = Number(minLevel);
+		if (!LEVELS.includes(level as CriterionLevel)) {
+			throw new Error(`Invalid min-level value "${minLevel}". Use 1-5.`);
+		}
+		gate.minLevel = level;
+	}
+	if (minScore !== undefined) {
+		const score = Number(minScore);
+		if (!Number.isFinite(score) || score < 0 || score > 100) {
+			throw new Error(`Invalid min-score value "${minScore}". Use a number between 0 and 100.`);
+		}
+		gate.minScore = score;
+	}
+	if (mustPass !== undefined) {
+		gate.mustPass = mustPass.split(",").map((id) => id.trim()).filter(Boolean);
+	}
+	if (noRegression) {
+		gate.noRegression = true;
+	}
+	return gate;
+};
+
+const resolveConcurrency = (args: string, fallback?: number) => {
+	const value = parseOptionArg(args, "concurrency") ?? fallback?.toString();
+	if (!value) return 2;
+	const concurrency = Number(value);
+	if (!Number.isInteger(concurrency) || concurrency < 1) {
+		throw new Error(`Invalid concurrency value "${value}". Use a positive integer.`);
+	}
+	return concurrency;
+};
+
+const resolveCoverageThreshold = (args: string, fallback?: number) => {
+	const value = parseOptionArg(args, "coverage-threshold") ?? fallback?.toString();
+	if (!value) return DEFAULT_COVERAGE_THRESHOLD;
+	const threshold = Number(value);
+	if (!Number.isFinite(threshold) || threshold < 0 || threshold > 100) {
+		throw new Error(`Invalid coverage-threshold value "${value}". Use a number between 0 and 100.`);
+	}
+	return threshold;
+};
+
+const resolveModelRef = (ctx: ExtensionCommandContext, args: string, fallback?: string) => {
 	const explicit = parseModelArg(args);
 	const fromCtx = ctx.model ? `${ctx.model.provider}/${ctx.model.id}` : undefined;
 	const fromLast = lastSelectedModel ? `${lastSelectedModel.provider}/${lastSelectedModel.id}` : undefined;
-	const modelId = explicit ?? fromCtx ?? fromLast;
+	const modelId = explicit ?? fallback ?? fromCtx ?? fromLast;
 	if (!modelId) return undefined;
 	const [provider, id] = modelId.split("/");
 	if (!provider || !id) return undefined;
 	return { provider, id } satisfies ModelRef;
 };
 
+const CRITERION_OVERRIDE_KEYS = ["enabled", "level", "tier", "category", "title", "recommendation", "na"];
+
+const CONFIG_FILES = [path.join(".pi", "readiness.json"), ".readinessrc"];
+
+const validateReadinessConfig = (data: Record<string, unknown>, source: string) => {
+	const errors: string[] = [];
+	const criteria = data.criteria;
+	if (criteria !== undefined && !isRecord(criteria)) {
+		errors.push("criteria must be an object keyed by criterion id");
+	}
+	for (const [id, override] of Object.entries(isRecord(criteria) ? criteria : {})) {
+		if (!isRecord(override)) {
+			errors.push(`criteria.${id} must be an object`);
+			continue;
+		}
+		for (const key of Object.keys(override).filter((key) => !CRITERION_OVERRIDE_KEYS.includes(key))) {
+			errors.push(`criteria.${id}.${key} is not a supported override (use ${CRITERION_OVERRIDE_KEYS.join(", ")})`);
+		}
+		if (override.enabled !== undefined && typeof override.enabled !== "boolean") {
+			errors.push(`criteria.${id}.enabled must be a boolean`);
+		}
+		if (override.level !== undefined && !LEVELS.includes(override.level as CriterionLevel)) {
+			errors.push(`criteria.${id}.level must be 1-5`);
+		}
+		if (override.tier !== undefined && !["BASIC", "INTERMEDIATE", "ADVANCED"].includes(override.tier as string)) {
+			errors.push(`criteria.${id}.tier must be BASIC, INTERMEDIATE or ADVANCED`);
+		}
+		for (const key of ["category", "title", "recommendation", "na"]) {
+			if (override[key] !== undefined && typeof override[key] !== "string") {
+				errors.push(`criteria.${id}.${key} must be a string`);
+			}
+		}
+	}
+	if (data.customCriteria !== undefined && !Array.isArray(data.customCriteria)) {
+		errors.push("customCriteria must be an array");
+	}
+	const defaults = data.defaults;
+	if (defaults !== undefined && !isRecord(defaults)) {
+		errors.push("defaults must be an object");
+	}
+	if (isRecord(defaults)) {
+		for (const key of ["model", "outputDir"]) {
+			if (defaults[key] !== undefined && typeof defaults[key] !== "string") {
+				errors.push(`defaults.${key} must be a string`);
+			}
+		}
+		if (defaults.policy !== undefined && !reconcilePolicies.includes(defaults.policy as ReconcilePolicy)) {
+			errors.push(`defaults.policy must be one of: ${reconcilePolicies.join(", ")}`);
+		}
+		if (defaults.evidence !== undefined && defaults.evidence !== "downgrade" && defaults.evidence !== "flag") {
+			errors.push("defaults.evidence must be downgrade or flag");
+		}
+		if (defaults.retries !== undefined && !isCount(defaults.retries)) {
+			errors.push("defaults.retries must be a non-negative integer");
+		}
+		if (defaults.concurrency !== undefined && !(isCount(defaults.concurrency) && defaults.concurrency >= 1)) {
+			errors.push("defaults.concurrency must be a positive integer");
+		}
+		if (
+			defaults.coverageThreshold !== undefined &&
+			!(typeof defaults.coverageThreshold === "number" && defaults.coverageThreshold >= 0 && defaults.coverageThreshold <= 100)
+		) {
+			errors.push("defaults.coverageThreshold must be a number between 0 and 100");
+		}
+	}
+	const gate = data.gate;
+	if (gate !== undefined && !isRecord(gate)) {
+		errors.push("gate must be an object");
+	}
+	if (isRecord(gate)) {
+		if (gate.minLevel !== undefined && !LEVELS.includes(gate.minLevel as CriterionLevel)) {
+			errors.push("gate.minLevel must be 1-5");
+		}
+		if (gate.minScore !== undefined && !(typeof gate.minScore === "number" && gate.minScore >= 0 && gate.minScore <= 100)) {
+			errors.push("gate.minScore must be a number between 0 and 100");
+		}
+		if (
+			gate.mustPass !== undefined &&
+			!(Array.isArray(gate.mustPass) && gate.mustPass.every((id) => typeof id === "string"))
+		) {
+			errors.push("gate.mustPass must be a list of criterion ids");
+		}
+		if (gate.noRegression !== undefined && typeof gate.noRegression !== "boolean") {
+			errors.push("gate.noRegression must be a boolean");
+		}
+	}
+	if (errors.length > 0) {
+		throw new Error(`Invalid readiness config ${source}:\n- ${errors.join("\n- ")}`);
+	}
+	return data as ReadinessConfig;
+};
+
+const loadReadinessConfig = (repoRoot: string) => {
+	for (const candidate of CONFIG_FILES) {
+		const configPath = path.join(repoRoot, candidate);
+		if (!fileExists(configPath)) continue;
+		const data = readJson(configPath);
+		if (!data) {
+			throw new Error(`Invalid readiness config ${candidate}: not valid JSON`);
+		}
+		return { source: candidate, config: validateReadinessConfig(data, candidate) };
+	}
+	return { source: undefined, config: {} as ReadinessConfig };
+};
+
+const applyCriteriaOverrides = (criteria: Criterion[], overrides: Record<string, CriterionOverride>) =>
+	criteria
+		.filter((criterion) => overrides[criterion.id]?.enabled !== false)
+		.map((criterion) => {
+			const override = overrides[criterion.id];
+			if (!override) return criterion;
+			const { level, tier, category, title, recommendation, na } = override;
+			const updated: Criterion = {
+				...criterion,
+				level: level ?? criterion.level,
+				tier: tier ?? criterion.tier,
+				category: category ?? criterion.category,
+				title: title ?? criterion.title,
+				recommendation: recommendation ?? criterion.recommendation,
+			};
+			if (na !== undefined) {
+				const result = naResult(`Marked N/A in config: ${na}`);
+				updated.naReason = na;
+				updated.checkRepo = criterion.scope === "repo" ? () => result : undefined;
+				updated.checkApp = criterion.scope === "app" ? () => result : undefined;
+			}
+			return updated;
+		});
+
+const resolveConfig = (
+	loaded: ReturnType<typeof loadReadinessConfig>,
+	args: string,
+	criteria: Criterion[],
+): ResolvedConfig => {
+	const { source, config } = loaded;
+	const overrides = config.criteria ?? {};
+	const defaults = config.defaults ?? {};
+	const known = new Set(criteria.map((criterion) => criterion.id));
+	const warnings = Object.keys(overrides)
+		.filter((id) => !known.has(id))
+		.map((id) => `criteria.${id}: unknown criterion id`);
+	return {
+		source,
+		customCriteria: criteria.flatMap((criterion) =>
+			criterion.customSource ? [{ id: criterion.id, source: criterion.customSource }] : [],
+		),
+		criteria: overrides,
+		disabled: Object.keys(overrides).filter((id) => overrides[id].enabled === false),
+		settings: {
+			model: parseModelArg(args) ?? defaults.model,
+			outputDir: defaults.outputDir ?? path.join(".pi", "reports"),
+			scoringMode: isOfflineMode(args) ? "offline" : "model",
+			policy: resolveReconcilePolicy(args, defaults.policy),
+			retries: resolveMaxRetries(args, defaults.retries),
+			evidence: resolveEvidenceMode(args, defaults.evidence),
+			chunked: hasFlag(args, ["--chunked"]),
+			concurrency: resolveConcurrency(args, defaults.concurrency),
+			coverageThreshold: resolveCoverageThreshold(args, defaults.coverageThreshold),
+			refresh: hasFlag(args, ["--refresh"]),
+			gate: resolveGate(args, config.gate),
+		},
+		warnings,
+	};
+};
+
 const extractTextParts = (content: unknown): string[] => {
 	if (typeof content === "string") return [content];
 	if (!Array.isArray(content)) return [];
@@ -154,12 +772,6 @@ const extractTextParts = (content: unknown): string[] => {
 	return parts;
 };
 
-const tierToLevel: Record<CriterionTier, number> = {
-	BASIC: 1,
-	INTERMEDIATE: 3,
-	ADVANCED: 5,
-};
-
 const passResult = (details: string): CheckResult => ({ status: "pass", details });
 const failResult = (details: string): CheckResult => ({ status: "fail", details });
 const naResult = (details: string): CheckResult => ({ status: "na", details });
@@ -196,320 +808,1759 @@ const listFiles = (dir: string) => {
 	}
 };
 
-const walkDirs = (dir: string, depth = 0, results: string[] = []) => {
-	if (depth > MAX_WALK_DEPTH) return results;
-	for (const entry of listFiles(dir)) {
-		if (!entry.isDirectory()) continue;
-		if (EXCLUDED_DIRS.has(entry.name)) continue;
-		const next = path.join(dir, entry.name);
-		results.push(next);
-		walkDirs(next, depth + 1, results);
+const READINESS_IGNORE_FILE = ".readinessignore";
+// The walker fallback only runs without git; dependency folders are skipped even when no .gitignore lists them.
+const FALLBACK_IGNORES = ["node_modules/"];
+
+const parseIgnoreRules = (text: string, base = ""): IgnoreRule[] =>
+	text.split(/\r?\n/).flatMap((raw) => {
+		const line = raw.replace(/(?<!\\)\s+$/, "");
+		if (!line || line.startsWith("#")) return [];
+		const negate = line.startsWith("!");
+		let pattern = (negate ? line.slice(1) : line).replace(/^\\/, "");
+		const dirOnly = pattern.endsWith("/");
+		pattern = pattern.replace(/\/+$/, "");
+		if (!pattern) return [];
+		// Patterns containing a slash are relative to the ignore file; bare names match at any depth.
+		const anchored = pattern.includes("/");
+		pattern = pattern.replace(/^\//, "");
+		return [{ pattern: globToRegExp(anchored ? pattern : `**/${pattern}`), negate, dirOnly, base }];
+	});
+
+const isIgnored = (rules: IgnoreRule[], relativePath: string, isDir: boolean) => {
+	let ignored = false;
+	for (const rule of rules) {
+		if (rule.dirOnly && !isDir) continue;
+		if (rule.base && !relativePath.startsWith(`${rule.base}/`)) continue;
+		const target = rule.base ? relativePath.slice(rule.base.length + 1) : relativePath;
+		if (rule.pattern.test(target)) ignored = !rule.negate;
 	}
-	return results;
+	return ignored;
 };
 
-const getRepoRoot = async (pi: ExtensionAPI, ctx: ExtensionCommandContext) => {
-	try {
-		const result = await pi.exec("git", ["rev-parse", "--show-toplevel"], { timeout: 3000 });
-		if (result.code === 0 && result.stdout.trim()) {
-			return result.stdout.trim();
-		}
-	} catch {
-		// ignore
+const isPathIgnored = (rules: IgnoreRule[], relativePath: string) => {
+	const segments = relativePath.split("/");
+	for (let depth = 1; depth < segments.length; depth++) {
+		if (isIgnored(rules, segments.slice(0, depth).join("/"), true)) return true;
 	}
-	return ctx.cwd ?? process.cwd();
+	return isIgnored(rules, relativePath, false);
 };
 
-const detectLanguages = (repoRoot: string) => {
-	const languages = new Set<string>();
-	const addIf = (name: string, fileNames: string[]) => {
-		for (const fileName of fileNames) {
-			if (fileExists(path.join(repoRoot, fileName))) {
-				languages.add(name);
-				return;
+const walkRepoFiles = (repoRoot: string, rootRules: IgnoreRule[]) => {
+	const files: string[] = [];
+	const visit = (dir: string, relativeDir: string, inherited: IgnoreRule[]) => {
+		const gitignore = readText(path.join(dir, ".gitignore"));
+		const rules = gitignore === undefined ? inherited : [...inherited, ...parseIgnoreRules(gitignore, relativeDir)];
+		for (const entry of listFiles(dir)) {
+			if (entry.name === ".git") continue;
+			const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+			if (entry.isDirectory()) {
+				if (!isIgnored(rules, relativePath, true)) visit(path.join(dir, entry.name), relativePath, rules);
+			} else if (entry.isFile() && !isIgnored(rules, relativePath, false)) {
+				files.push(relativePath);
 			}
 		}
 	};
-	addIf("JavaScript/TypeScript", ["package.json", "tsconfig.json", "jsconfig.json"]);
-	addIf("Python", ["pyproject.toml", "requirements.txt", "setup.py", "Pipfile"]);
-	addIf("Rust", ["Cargo.toml"]);
-	addIf("Go", ["go.mod"]);
-	addIf("Java", ["pom.xml", "build.gradle", "build.gradle.kts"]);
-	addIf("Ruby", ["Gemfile"]);
-	return Array.from(languages);
+	visit(repoRoot, "", rootRules);
+	return files;
 };
 
-const detectAppType = (app: AppInfo) => {
-	const deps = { ...(app.dependencies ?? {}), ...(app.devDependencies ?? {}) };
-	const keys = Object.keys(deps);
-	const hasAny = (names: string[]) => names.some((name) => keys.includes(name));
-	if (fileExists(path.join(app.path, "next.config.js")) || fileExists(path.join(app.path, "next.config.mjs"))) {
-		return "web";
+const statIndexedFile = (value: string): IndexedFile | undefined => {
+	try {
+		const stat = fs.statSync(value);
+		return stat.isFile() ? { size: stat.size, mtimeMs: stat.mtimeMs } : undefined;
+	} catch {
+		return undefined;
 	}
-	if (hasAny(["next", "react", "vite", "webpack", "svelte"])) return "web";
-	if (hasAny(["express", "fastify", "koa", "nestjs"])) return "service";
-	if (hasAny(["react-native", "expo"])) return "mobile";
-	return "library";
 };
 
-const discoverApps = (repoRoot: string) => {
-	const apps: AppInfo[] = [];
-	const rootPackage = readJson(path.join(repoRoot, "package.json"));
-	const dirs = walkDirs(repoRoot);
-	for (const dir of dirs) {
-		const pkgPath = path.join(dir, "package.json");
-		if (!fileExists(pkgPath)) continue;
-		if (path.resolve(dir) === path.resolve(repoRoot)) continue;
-		const pkg = readJson(pkgPath) ?? {};
-		const name = typeof pkg.name === "string" ? pkg.name : path.basename(dir);
-		const description = typeof pkg.description === "string" ? pkg.description : undefined;
-		const scripts = typeof pkg.scripts === "object" && pkg.scripts ? (pkg.scripts as Record<string, string>) : undefined;
-		const dependencies = typeof pkg.dependencies === "object" && pkg.dependencies ? (pkg.dependencies as Record<string, string>) : undefined;
-		const devDependencies =
-			typeof pkg.devDependencies === "object" && pkg.devDependencies ? (pkg.devDependencies as Record<string, string>) : undefined;
-		apps.push({
-			name,
-			path: dir,
-			relativePath: path.relative(repoRoot, dir),
-			type: "unknown",
-			description,
-			packageJson: pkg,
-			scripts,
-			dependencies,
-			devDependencies,
+// One listing of the repository shared by discovery, checks and snapshots: tracked plus untracked-but-not-ignored
+// files from git, or a .gitignore-aware walk outside git. `.readinessignore` and the report output dir are always excluded.
+const buildFileIndex = async (pi: ExtensionAPI, repoRoot: string, outputDir: string): Promise<FileIndex> => {
+	const startedAt = Date.now();
+	const extraRules = [
+		...parseIgnoreRules(`/${toPosixPath(path.relative(repoRoot, path.resolve(repoRoot, outputDir)))}/`),
+		...parseIgnoreRules(readText(path.join(repoRoot, READINESS_IGNORE_FILE)) ?? ""),
+	];
+	let files: string[] | undefined;
+	let source: FileIndex["source"] = "git";
+	try {
+		const result = await pi.exec("git", ["ls-files", "--cached", "--others", "--exclude-standard", "-z"], {
+			cwd: repoRoot,
+			timeout: 30000,
 		});
+		if (result.code === 0) {
+			files = Array.from(new Set(result.stdout.split("\0").filter(Boolean)));
+		}
+	} catch {
+		// fall back to walking the tree
 	}
-
-	if (apps.length === 0 && rootPackage) {
-		const name = typeof rootPackage.name === "string" ? rootPackage.name : path.basename(repoRoot);
-		const description = typeof rootPackage.description === "string" ? rootPackage.description : undefined;
-		const scripts =
-			typeof rootPackage.scripts === "object" && rootPackage.scripts
-				? (rootPackage.scripts as Record<string, string>)
-				: undefined;
-		const dependencies =
-			typeof rootPackage.dependencies === "object" && rootPackage.dependencies
-				? (rootPackage.dependencies as Record<string, string>)
-				: undefined;
-		const devDependencies =
-			typeof rootPackage.devDependencies === "object" && rootPackage.devDependencies
-				? (rootPackage.devDependencies as Record<string, string>)
-				: undefined;
-		apps.push({
-			name,
-			path: repoRoot,
-			relativePath: ".",
-			type: "unknown",
-			description,
-			packageJson: rootPackage,
-			scripts,
-			dependencies,
-			devDependencies,
-		});
+	if (!files) {
+		source = "walk";
+		const gitExclude = readText(path.join(repoRoot, ".git", "info", "exclude")) ?? "";
+		files = walkRepoFiles(repoRoot, [...parseIgnoreRules(FALLBACK_IGNORES.join("\n")), ...parseIgnoreRules(gitExclude), ...extraRules]);
 	}
-
-	for (const app of apps) {
-		app.type = detectAppType(app);
+	const entries = new Map<string, IndexedFile>();
+	for (const file of files) {
+		if (isPathIgnored(extraRules, file)) continue;
+		// --cached still lists tracked files deleted from the worktree, and submodules show up as directories.
+		const entry = statIndexedFile(path.join(repoRoot, file));
+		if (entry) entries.set(file, entry);
 	}
+	files = Array.from(entries.keys()).sort();
 
-	return apps;
-};
-
-const getRepoFiles = (repoRoot: string) => {
-	const files = new Set<string>();
-	for (const entry of listFiles(repoRoot)) {
-		files.add(entry.name);
+	const dirs = new Set<string>();
+	for (const file of files) {
+		for (let dir = path.posix.dirname(file); dir !== "." && !dirs.has(dir); dir = path.posix.dirname(dir)) {
+			dirs.add(dir);
+		}
 	}
-	return files;
+	let bytes = 0;
+	for (const entry of entries.values()) bytes += entry.size;
+	return {
+		root: repoRoot,
+		source,
+		files,
+		dirs: new Set(Array.from(dirs).sort()),
+		entries,
+		contents: new Map(),
+		scan: { source, durationMs: Date.now() - startedAt, files: files.length, directories: dirs.size, bytes },
+	};
 };
 
-const getWorkflowFiles = (repoRoot: string) => {
-	const workflowDir = path.join(repoRoot, ".github", "workflows");
-	if (!fileExists(workflowDir)) return [];
-	return listFiles(workflowDir)
-		.filter((file) => file.isFile() && file.name.match(/\.ya?ml$/))
-		.map((file) => path.join(workflowDir, file.name));
+const indexKey = (index: FileIndex, file: string) => toPosixPath(path.relative(index.root, file));
+
+// Contents are read on first use and shared by every check, snapshot and evidence lookup in the run.
+// Files outside the index (ignored, or excluded by .readinessignore) read as missing.
+const readIndexedText = (index: FileIndex, file: string) => {
+	const key = indexKey(index, file);
+	if (!index.entries.has(key)) return undefined;
+	if (!index.contents.has(key)) index.contents.set(key, readText(path.join(index.root, key)));
+	return index.contents.get(key);
 };
 
-const hasAnyFile = (root: string, candidates: string[]) => candidates.some((name) => fileExists(path.join(root, name)));
+const isIndexedFile = (index: FileIndex, file: string) => index.entries.has(indexKey(index, file));
 
-const hasTestFiles = (root: string) => {
-	return ["test", "tests", "__tests__", "spec"].some((dir) => fileExists(path.join(root, dir)));
+// Directories count as present when any indexed file lies below them.
+const isIndexedPath = (index: FileIndex, target: string) => {
+	const key = indexKey(index, target);
+	return index.entries.has(key) || index.dirs.has(key);
 };
 
-const hasLintConfig = (root: string, app: AppInfo) => {
-	const lintFiles = [
-		".eslintrc",
-		".eslintrc.js",
-		".eslintrc.cjs",
-		".eslintrc.json",
-		".prettierrc",
-		".prettierrc.js",
-		".prettierrc.cjs",
-		".prettierrc.json",
-		"prettier.config.js",
-		"prettier.config.cjs",
-		"ruff.toml",
-	];
-	const scripts = app.scripts ?? {};
-	const hasScript = ["lint", "format"].some((key) => scripts[key]);
-	const pkg = app.packageJson ?? {};
-	const hasPkgConfig = Boolean(pkg.eslintConfig || pkg.prettier);
-	return hasScript || hasPkgConfig || lintFiles.some((name) => fileExists(path.join(root, name)));
-};
+const indexedFileSize = (index: FileIndex, file: string) => index.entries.get(indexKey(index, file))?.size ?? 0;
 
-const hasTypeCheckConfig = (root: string, app: AppInfo) => {
-	const scripts = app.scripts ?? {};
-	const hasScript = ["typecheck", "check", "lint:types"].some((key) => scripts[key]);
-	return (
-		hasScript ||
-		hasAnyFile(root, ["tsconfig.json", "tsconfig.base.json", "jsconfig.json", "mypy.ini", "pyrightconfig.json"])
-	);
+const relativeIndexFiles = (index: FileIndex, dir: string) => {
+	const prefix = indexKey(index, dir);
+	return prefix ? index.files.filter((file) => file.startsWith(`${prefix}/`)) : index.files;
 };
 
-const hasCoverageConfig = (root: string, app: AppInfo) => {
-	const scripts = app.scripts ?? {};
-	const hasScript = ["coverage", "test:coverage"].some((key) => scripts[key]);
-	return hasScript || hasAnyFile(root, ["nyc.config.js", "nyc.config.cjs", "jest.config.js", "jest.config.ts"]) ||
-		!!(app.packageJson && (app.packageJson.nyc || app.packageJson.jest));
+const indexFilesUnder = (index: FileIndex, dir: string) => {
+	if (indexKey(index, dir).startsWith("..")) return [];
+	return relativeIndexFiles(index, dir).map((file) => path.join(index.root, file));
 };
 
-const hasPreCommitHooks = (repoRoot: string) => {
-	return (
-		fileExists(path.join(repoRoot, ".husky")) ||
-		hasAnyFile(repoRoot, [".lintstagedrc", ".lintstagedrc.js", ".lintstagedrc.cjs", ".pre-commit-config.yaml"]) ||
-		(() => {
-			const pkg = readJson(path.join(repoRoot, "package.json"));
-			return Boolean(pkg && (pkg["lint-staged"] || pkg["husky"]));
-		})()
-	);
-};
+// Directories considered by the fallback app discovery, limited in depth like the original directory walk.
+const indexDirs = (index: FileIndex) =>
+	Array.from(index.dirs)
+		.filter((dir) => dir.split("/").length <= MAX_WALK_DEPTH + 1)
+		.map((dir) => path.join(index.root, dir));
 
-const hasReleaseAutomation = (repoRoot: string) => {
-	return (
-		fileExists(path.join(repoRoot, ".changeset")) ||
-		hasAnyFile(repoRoot, [".releaserc", ".releaserc.json", "release.config.js", "changeset.config.js"]) ||
-		(() => {
-			const pkg = readJson(path.join(repoRoot, "package.json"));
-			return Boolean(pkg && (pkg["release"] || pkg["changeset"] || pkg["semantic-release"]));
-		})()
-	);
+const getRepoRoot = async (pi: ExtensionAPI, ctx: ExtensionCommandContext) => {
+	try {
+		const result = await pi.exec("git", ["rev-parse", "--show-toplevel"], { timeout: 3000 });
+		if (result.code === 0 && result.stdout.trim()) {
+			return result.stdout.trim();
+		}
+	} catch {
+		// ignore
+	}
+	return ctx.cwd ?? process.cwd();
 };
 
-const hasDependencyAutomation = (repoRoot: string) => {
-	return hasAnyFile(repoRoot, ["renovate.json", "renovate.json5"]) || fileExists(path.join(repoRoot, ".github", "dependabot.yml"));
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+	".ts": "TypeScript",
+	".tsx": "TypeScript",
+	".mts": "TypeScript",
+	".cts": "TypeScript",
+	".js": "JavaScript",
+	".jsx": "JavaScript",
+	".mjs": "JavaScript",
+	".cjs": "JavaScript",
+	".py": "Python",
+	".pyi": "Python",
+	".go": "Go",
+	".rs": "Rust",
+	".java": "Java",
+	".kt": "Kotlin",
+	".kts": "Kotlin",
+	".scala": "Scala",
+	".groovy": "Groovy",
+	".rb": "Ruby",
+	".php": "PHP",
+	".cs": "C#",
+	".fs": "F#",
+	".c": "C",
+	".h": "C",
+	".cc": "C++",
+	".cpp": "C++",
+	".cxx": "C++",
+	".hh": "C++",
+	".hpp": "C++",
+	".m": "Objective-C",
+	".swift": "Swift",
+	".dart": "Dart",
+	".ex": "Elixir",
+	".exs": "Elixir",
+	".erl": "Erlang",
+	".hs": "Haskell",
+	".clj": "Clojure",
+	".lua": "Lua",
+	".r": "R",
+	".jl": "Julia",
+	".zig": "Zig",
+	".sh": "Shell",
+	".bash": "Shell",
+	".zsh": "Shell",
+	".ps1": "PowerShell",
+	".sql": "SQL",
+	".tf": "HCL",
+	".vue": "Vue",
+	".svelte": "Svelte",
+	".html": "HTML",
+	".css": "CSS",
+	".scss": "CSS",
+	".sass": "CSS",
+	".less": "CSS",
 };
+// Larger files are usually generated or vendored; they count as files but their lines are not read.
+const MAX_LOC_FILE_BYTES = 1024 * 1024;
 
-const hasRunbooks = (repoRoot: string) => {
-	return (
-		fileExists(path.join(repoRoot, "docs", "runbook")) ||
-		hasAnyFile(repoRoot, ["runbook.md", "RUNBOOK.md", "ops.md", "OPERATIONS.md"]) ||
-		fileExists(path.join(repoRoot, "ops"))
-	);
-};
+type MeasuredFile = { language: string; lines: number };
 
-const hasScheduledAutomation = (workflows: string[]) => {
-	return workflows.some((file) => {
-		const content = readText(file);
-		return content ? content.includes("schedule:") : false;
-	});
+const countCodeLines = (text: string) => {
+	let lines = 0;
+	for (const line of text.split("\n")) {
+		if (line.trim()) lines++;
+	}
+	return lines;
 };
 
-const hasSetupInstructions = (readme?: string) => {
-	if (!readme) return false;
-	const text = readme.toLowerCase();
-	return ["install", "setup", "usage", "getting started"].some((word) => text.includes(word));
+const measureLanguages = (index: FileIndex) => {
+	const measured = new Map<string, MeasuredFile>();
+	for (const file of index.files) {
+		const language = LANGUAGE_EXTENSIONS[path.posix.extname(file).toLowerCase()];
+		if (!language) continue;
+		const size = index.entries.get(file)?.size ?? 0;
+		// Read directly instead of through the index cache so the whole tree is never held in memory.
+		const text = size <= MAX_LOC_FILE_BYTES ? readText(path.join(index.root, file)) : undefined;
+		measured.set(file, { language, lines: text ? countCodeLines(text) : 0 });
+	}
+	return measured;
 };
 
-const getDependencies = (app: AppInfo) => ({ ...(app.dependencies ?? {}), ...(app.devDependencies ?? {}) });
+const summarizeLanguages = (measured: Map<string, MeasuredFile>, files: string[]): LanguageShare[] => {
+	const totals = new Map<string, { files: number; lines: number }>();
+	for (const file of files) {
+		const entry = measured.get(file);
+		if (!entry) continue;
+		const total = totals.get(entry.language) ?? { files: 0, lines: 0 };
+		total.files++;
+		total.lines += entry.lines;
+		totals.set(entry.language, total);
+	}
+	const allLines = Array.from(totals.values()).reduce((sum, total) => sum + total.lines, 0);
+	const allFiles = Array.from(totals.values()).reduce((sum, total) => sum + total.files, 0);
+	return Array.from(totals.entries())
+		.map(([language, total]) => ({
+			language,
+			files: total.files,
+			lines: total.lines,
+			// Shares are by lines of code, or by file count when nothing could be read.
+			percentage:
+				Math.round(((allLines > 0 ? total.lines / allLines : total.files / allFiles) * 100) * 10) / 10,
+		}))
+		.sort((a, b) => b.lines - a.lines || b.files - a.files || a.language.localeCompare(b.language));
+};
 
-const hasAnyDependency = (app: AppInfo, names: string[]) => {
+// Manifest-only languages are kept for repos whose sources were not recognised by extension.
+const detectLanguages = (index: FileIndex, breakdown: LanguageShare[]) => {
+	const languages = new Set<string>(breakdown.map((entry) => entry.language));
+	const addIf = (name: string, fileNames: string[], covered = [name]) => {
+		if (covered.some((language) => languages.has(language))) return;
+		for (const fileName of fileNames) {
+			if (isIndexedFile(index, path.join(index.root, fileName))) {
+				languages.add(name);
+				return;
+			}
+		}
+	};
+	addIf("JavaScript/TypeScript", ["package.json", "tsconfig.json", "jsconfig.json"], ["JavaScript", "TypeScript"]);
+	addIf("Python", ["pyproject.toml", "requirements.txt", "setup.py", "Pipfile"]);
+	addIf("Rust", ["Cargo.toml"]);
+	addIf("Go", ["go.mod"]);
+	addIf("Java", ["pom.xml", "build.gradle", "build.gradle.kts"], ["Java", "Kotlin", "Scala", "Groovy"]);
+	addIf("Ruby", ["Gemfile"]);
+	return Array.from(languages);
+};
+
+type AppClassification = Pick<AppInfo, "type" | "framework" | "confidence">;
+
+// Ordered by specificity: the first signal found wins, so e.g. an Electron app using React is "electron", not "web".
+// Docs tooling often sits in a library's devDependencies, so docs rules only look at runtime dependencies.
+const APP_FRAMEWORK_RULES: { type: string; framework: string; dependencies: string[]; files?: string[]; runtimeOnly?: boolean }[] = [
+	{ type: "extension", framework: "wxt", dependencies: ["wxt"], files: ["wxt.config.ts", "wxt.config.js"] },
+	{ type: "extension", framework: "plasmo", dependencies: ["plasmo"] },
+	{ type: "electron", framework: "electron", dependencies: ["electron", "electron-builder", "@electron-forge/cli"] },
+	{ type: "mobile", framework: "expo", dependencies: ["expo"] },
+	{ type: "mobile", framework: "react-native", dependencies: ["react-native"] },
+	{
+		type: "docs",
+		framework: "docusaurus",
+		dependencies: ["@docusaurus/core"],
+		files: ["docusaurus.config.js", "docusaurus.config.ts"],
+		runtimeOnly: true,
+	},
+	{ type: "docs", framework: "vitepress", dependencies: ["vitepress"], files: [".vitepress/config.ts", ".vitepress/config.mts", ".vitepress/config.js"], runtimeOnly: true },
+	{ type: "docs", framework: "vuepress", dependencies: ["vuepress"], runtimeOnly: true },
+	{ type: "docs", framework: "nextra", dependencies: ["nextra"], runtimeOnly: true },
+	{ type: "docs", framework: "starlight", dependencies: ["@astrojs/starlight"], runtimeOnly: true },
+	{ type: "docs", framework: "mkdocs", dependencies: ["mkdocs", "mkdocs-material"], files: ["mkdocs.yml"], runtimeOnly: true },
+	{ type: "serverless", framework: "serverless", dependencies: [], files: ["serverless.yml", "serverless.yaml", "serverless.ts"] },
+	{ type: "serverless", framework: "aws-sam", dependencies: [], files: ["samconfig.toml"] },
+	{ type: "serverless", framework: "azure-functions", dependencies: ["@azure/functions", "azure-functions"], files: ["host.json"] },
+	{ type: "serverless", framework: "firebase-functions", dependencies: ["firebase-functions"] },
+	{ type: "iac", framework: "aws-cdk", dependencies: ["aws-cdk-lib", "aws-cdk"], files: ["cdk.json"] },
+	{ type: "iac", framework: "cdktf", dependencies: ["cdktf"], files: ["cdktf.json"] },
+	{ type: "iac", framework: "pulumi", dependencies: ["@pulumi/pulumi", "pulumi"], files: ["Pulumi.yaml"] },
+	{ type: "web", framework: "next", dependencies: ["next"], files: ["next.config.js", "next.config.mjs", "next.config.ts"] },
+	{ type: "web", framework: "nuxt", dependencies: ["nuxt"] },
+	{ type: "web", framework: "remix", dependencies: ["@remix-run/react"] },
+	{ type: "web", framework: "astro", dependencies: ["astro"] },
+	{ type: "web", framework: "angular", dependencies: ["@angular/core"] },
+	{ type: "web", framework: "sveltekit", dependencies: ["@sveltejs/kit"] },
+	{ type: "web", framework: "svelte", dependencies: ["svelte"] },
+	{ type: "web", framework: "vue", dependencies: ["vue"] },
+	{ type: "web", framework: "react", dependencies: ["react"] },
+	{ type: "service", framework: "nestjs", dependencies: ["@nestjs/core", "nestjs"] },
+	{ type: "service", framework: "express", dependencies: ["express"] },
+	{ type: "service", framework: "fastify", dependencies: ["fastify"] },
+	{ type: "service", framework: "koa", dependencies: ["koa"] },
+	{ type: "service", framework: "hono", dependencies: ["hono"] },
+	{ type: "service", framework: "fastapi", dependencies: ["fastapi"] },
+	{ type: "service", framework: "flask", dependencies: ["flask"] },
+	{ type: "service", framework: "django", dependencies: ["django"] },
+	{ type: "service", framework: "actix-web", dependencies: ["actix-web"] },
+	{ type: "service", framework: "axum", dependencies: ["axum"] },
+	{ type: "service", framework: "rocket", dependencies: ["rocket"] },
+	{ type: "service", framework: "gin", dependencies: ["github.com/gin-gonic/gin"] },
+	{ type: "service", framework: "echo", dependencies: ["github.com/labstack/echo/v4"] },
+	{ type: "worker", framework: "bullmq", dependencies: ["bullmq", "bull", "bee-queue"] },
+	{ type: "worker", framework: "temporal", dependencies: ["@temporalio/worker", "temporalio"] },
+	{ type: "worker", framework: "celery", dependencies: ["celery"] },
+	{ type: "worker", framework: "dramatiq", dependencies: ["dramatiq"] },
+	{ type: "worker", framework: "rq", dependencies: ["rq"] },
+	{ type: "worker", framework: "sqs-consumer", dependencies: ["sqs-consumer"] },
+	{ type: "worker", framework: "kafka", dependencies: ["kafkajs", "confluent-kafka", "github.com/segmentio/kafka-go"] },
+	{ type: "worker", framework: "amqp", dependencies: ["amqplib", "pika"] },
+	{ type: "worker", framework: "asynq", dependencies: ["github.com/hibiken/asynq"] },
+];
+
+// Generic bundlers and runtime SDKs hint at a type without naming the framework, so they are only medium confidence.
+const APP_HINT_RULES: { type: string; dependencies: string[] }[] = [
+	{ type: "web", dependencies: ["vite", "webpack", "parcel"] },
+	{ type: "serverless", dependencies: ["@types/aws-lambda", "aws-lambda-powertools", "@aws-lambda-powertools/logger", "github.com/aws/aws-lambda-go"] },
+	{ type: "cli", dependencies: ["commander", "yargs", "@oclif/core", "clipanion", "cac", "meow", "click", "typer", "clap", "github.com/spf13/cobra", "github.com/urfave/cli/v2"] },
+];
+
+// Hand-written WebExtension manifests; wxt and plasmo generate theirs at build time. PWA manifests lack `manifest_version`.
+const EXTENSION_MANIFESTS = ["manifest.json", path.join("public", "manifest.json"), path.join("src", "manifest.json")];
+
+// Criteria applicability by app type.
+const BACKEND_APP_TYPES = ["service", "worker", "serverless"];
+const API_APP_TYPES = ["service", "serverless"];
+const LONG_RUNNING_APP_TYPES = ["service", "worker"];
+const NON_RUNTIME_APP_TYPES = ["library", "docs", "iac"];
+
+const detectAppType = (index: FileIndex, app: AppInfo): AppClassification => {
+	const keys = Object.keys(getDependencies(app));
+	const runtimeKeys = Object.keys(app.dependencies ?? {});
+	const hasAny = (names: string[], available = keys) => names.some((name) => available.includes(name));
+	const hasFile = (names: string[] = []) => hasAnyFile(index, app.path, names);
+	if (EXTENSION_MANIFESTS.some((name) => readIndexedJsonc(index, path.join(app.path, name))?.manifest_version !== undefined)) {
+		return { type: "extension", framework: "web-extension", confidence: "high" };
+	}
+	for (const rule of APP_FRAMEWORK_RULES) {
+		if (hasFile(rule.files) || hasAny(rule.dependencies, rule.runtimeOnly ? runtimeKeys : keys)) {
+			return { type: rule.type, framework: rule.framework, confidence: "high" };
+		}
+	}
+	if (keys.some((key) => key.startsWith("org.springframework.boot:spring-boot-starter-web"))) {
+		return { type: "service", framework: "spring-boot", confidence: "high" };
+	}
+	if (indexFilesUnder(index, app.path).some((file) => path.dirname(file) === path.resolve(app.path) && file.endsWith(".tf"))) {
+		return { type: "iac", framework: "terraform", confidence: "high" };
+	}
+	if (app.packageJson?.bin) return { type: "cli", confidence: "high" };
+	for (const rule of APP_HINT_RULES) {
+		if (hasAny(rule.dependencies)) return { type: rule.type, confidence: "medium" };
+	}
+	return { type: "library", confidence: app.packageJson?.main || app.packageJson?.exports ? "medium" : "low" };
+};
+
+const readRecord = (value: unknown) =>
+	typeof value === "object" && value ? (value as Record<string, string>) : undefined;
+
+const createPackageApp = (repoRoot: string, dir: string, pkg: Record<string, unknown>, source: AppSource): AppInfo => ({
+	name: typeof pkg.name === "string" ? pkg.name : path.basename(dir),
+	path: dir,
+	relativePath: path.relative(repoRoot, dir) || ".",
+	type: "unknown",
+	source,
+	description: typeof pkg.description === "string" ? pkg.description : undefined,
+	packageJson: pkg,
+	scripts: readRecord(pkg.scripts),
+	dependencies: readRecord(pkg.dependencies),
+	devDependencies: readRecord(pkg.devDependencies),
+});
+
+// Nx projects without a package.json expose their targets as `nx run` scripts so script checks still apply.
+const createNxProjectApp = (repoRoot: string, dir: string, project: Record<string, unknown>): AppInfo => {
+	const name = typeof project.name === "string" ? project.name : path.basename(dir);
+	const targets = isRecord(project.targets) ? Object.keys(project.targets) : [];
+	return {
+		name,
+		path: dir,
+		relativePath: path.relative(repoRoot, dir) || ".",
+		type: "unknown",
+		source: "nx",
+		scripts: targets.length ? Object.fromEntries(targets.map((target) => [target, `nx run ${name}:${target}`])) : undefined,
+	};
+};
+
+const expandDirGlob = (index: FileIndex, pattern: string) => {
+	const matcher = globToRegExp(toPosixPath(pattern).replace(/^\.\//, "").replace(/\/+$/, ""));
+	return Array.from(index.dirs)
+		.filter((dir) => matcher.test(dir))
+		.map((dir) => path.join(index.root, dir));
+};
+
+const readWorkspaceDeclarations = (index: FileIndex) => {
+	const repoRoot = index.root;
+	const declarations: { source: AppSource; patterns: string[]; manifest: "package.json" | "project.json" }[] = [];
+	const toPatterns = (value: unknown) => (Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : []);
+
+	const rootPackage = readIndexedJsonc(index, path.join(repoRoot, "package.json"));
+	const workspaces = rootPackage?.workspaces;
+	const packagePatterns = toPatterns(isRecord(workspaces) && !Array.isArray(workspaces) ? workspaces.packages : workspaces);
+	if (packagePatterns.length) {
+		declarations.push({ source: "package.json", patterns: packagePatterns, manifest: "package.json" });
+	}
+
+	const pnpmText = readIndexedText(index, path.join(repoRoot, "pnpm-workspace.yaml"));
+	if (pnpmText !== undefined) {
+		try {
+			const pnpmPatterns = toPatterns(parseYaml(pnpmText).packages);
+			if (pnpmPatterns.length) {
+				declarations.push({ source: "pnpm-workspace.yaml", patterns: pnpmPatterns, manifest: "package.json" });
+			}
+		} catch {
+			// ignore malformed workspace files and fall back to other declarations
+		}
+	}
+
+	const lerna = readIndexedJsonc(index, path.join(repoRoot, "lerna.json"));
+	if (lerna && !(lerna.useWorkspaces === true && packagePatterns.length)) {
+		const lernaPatterns = toPatterns(lerna.packages);
+		declarations.push({
+			source: "lerna.json",
+			patterns: lernaPatterns.length ? lernaPatterns : ["packages/*"],
+			manifest: "package.json",
+		});
+	}
+
+	const nx = readIndexedJsonc(index, path.join(repoRoot, "nx.json"));
+	if (nx) {
+		const layout = isRecord(nx.workspaceLayout) ? nx.workspaceLayout : {};
+		const dirs = [layout.appsDir, layout.libsDir].filter((item): item is string => typeof item === "string");
+		declarations.push({
+			source: "nx",
+			patterns: dirs.length ? dirs.map((dir) => `${dir}/**`) : ["**"],
+			manifest: "project.json",
+		});
+	}
+
+	// Turborepo reads the package manager's workspaces; without them, assume its conventional layout.
+	if (isIndexedFile(index, path.join(repoRoot, "turbo.json")) && declarations.length === 0) {
+		declarations.push({ source: "turbo.json", patterns: ["apps/*", "packages/*"], manifest: "package.json" });
+	}
+
+	return declarations;
+};
+
+const discoverWorkspaceApps = (repoRoot: string, index: FileIndex) => {
+	const declarations = readWorkspaceDeclarations(index);
+	const apps = new Map<string, AppInfo>();
+	for (const declaration of declarations) {
+		const excluded = new Set(
+			declaration.patterns
+				.filter((pattern) => pattern.startsWith("!"))
+				.flatMap((pattern) => expandDirGlob(index, pattern.slice(1))),
+		);
+		const dirs = declaration.patterns
+			.filter((pattern) => !pattern.startsWith("!"))
+			.flatMap((pattern) => expandDirGlob(index, pattern));
+		for (const dir of dirs) {
+			if (excluded.has(dir) || apps.has(dir) || path.resolve(dir) === path.resolve(repoRoot)) continue;
+			const manifest = readIndexedJsonc(index, path.join(dir, declaration.manifest));
+			if (!manifest) continue;
+			const pkg = declaration.manifest === "package.json" ? manifest : readIndexedJsonc(index, path.join(dir, "package.json"));
+			apps.set(
+				dir,
+				pkg ? createPackageApp(repoRoot, dir, pkg, declaration.source) : createNxProjectApp(repoRoot, dir, manifest),
+			);
+		}
+	}
+	return { declared: declarations.length > 0, apps: Array.from(apps.values()) };
+};
+
+const stripTomlComment = (line: string) => {
+	let quote = "";
+	for (let index = 0; index < line.length; index++) {
+		const char = line[index];
+		if (quote) {
+			if (char === quote && line[index - 1] !== "\\") quote = "";
+		} else if (char === '"' || char === "'") {
+			quote = char;
+		} else if (char === "#") {
+			return line.slice(0, index);
+		}
+	}
+	return line;
+};
+
+const bracketBalance = (value: string) => {
+	let balance = 0;
+	let quote = "";
+	for (const char of value) {
+		if (quote) {
+			if (char === quote) quote = "";
+		} else if (char === '"' || char === "'") {
+			quote = char;
+		} else if (char === "[" || char === "{") {
+			balance++;
+		} else if (char === "]" || char === "}") {
+			balance--;
+		}
+	}
+	return balance;
+};
+
+const parseTomlValue = (value: string): unknown => {
+	const quoted = value.match(/^"((?:[^"\\]|\\.)*)"$|^'([^']*)'$/);
+	if (quoted) return quoted[1] ?? quoted[2];
+	if (value.startsWith("[")) {
+		return Array.from(value.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'/g), (match) => match[1] ?? match[2]);
+	}
+	return value;
+};
+
+// Minimal TOML reader for manifest metadata: tables keyed by their dotted header, with strings,
+// string arrays and raw values (inline tables, numbers). Enough for pyproject.toml and Cargo.toml.
+const parseToml = (text: string) => {
+	const tables: Record<string, Record<string, unknown>> = { "": {} };
+	let current = tables[""];
+	const lines = text.split(/\r?\n/);
+	for (let index = 0; index < lines.length; index++) {
+		const line = stripTomlComment(lines[index]).trim();
+		if (!line) continue;
+		const header = line.match(/^\[\[?\s*([^\]]+?)\s*\]\]?$/);
+		if (header) {
+			const name = header[1].replace(/["']/g, "");
+			tables[name] = tables[name] ?? {};
+			current = tables[name];
+			continue;
+		}
+		const separator = line.indexOf("=");
+		if (separator === -1) continue;
+		const key = line.slice(0, separator).trim().replace(/^["']|["']$/g, "");
+		let value = line.slice(separator + 1).trim();
+		while (bracketBalance(value) > 0 && index + 1 < lines.length) {
+			value += ` ${stripTomlComment(lines[++index]).trim()}`;
+		}
+		current[key] = parseTomlValue(value);
+	}
+	return tables;
+};
+
+const readToml = (index: FileIndex, file: string) => {
+	const text = readIndexedText(index, file);
+	return text === undefined ? undefined : parseToml(text);
+};
+
+const toStringList = (value: unknown) => (Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : []);
+
+const tomlString = (table: Record<string, unknown> | undefined, key: string) =>
+	typeof table?.[key] === "string" ? (table[key] as string) : undefined;
+
+// PEP 508 requirement ("requests[socks]>=2.31; python_version>'3.8'") to a name/version pair.
+const parseRequirement = (spec: string): [string, string] | undefined => {
+	const match = spec.trim().match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*([^;]*)/);
+	return match ? [match[1].toLowerCase(), match[2].trim() || "*"] : undefined;
+};
+
+const requirementsToRecord = (specs: string[]) =>
+	Object.fromEntries(specs.map(parseRequirement).filter((entry): entry is [string, string] => Boolean(entry)));
+
+// Dependency values are either a version string or an inline table such as { version = "1", features = [...] }.
+const tomlVersion = (value: string) =>
+	value.startsWith("{") ? (value.match(/\bversion\s*=\s*["']([^"']+)["']/)?.[1] ?? "*") : value;
+
+const tableToRecord = (table: Record<string, unknown> | undefined, skip: string[] = []) =>
+	Object.fromEntries(
+		Object.entries(table ?? {})
+			.filter(([key]) => !skip.includes(key))
+			.map(([key, value]) => [key.toLowerCase(), typeof value === "string" ? tomlVersion(value) : "*"]),
+	);
+
+const nonEmpty = (record: Record<string, string>) => (Object.keys(record).length ? record : undefined);
+
+const readMakeTargets = (index: FileIndex, dir: string) => {
+	const text = readIndexedText(index, path.join(dir, "Makefile"));
+	if (!text) return {};
+	const targets = Array.from(text.matchAll(/^([A-Za-z0-9][\w-]*)\s*:(?!=)/gm), (match) => match[1]);
+	return Object.fromEntries(targets.map((target) => [target, `make ${target}`]));
+};
+
+const createLanguageApp = (
+	index: FileIndex,
+	dir: string,
+	source: AppSource,
+	details: {
+		name?: string;
+		description?: string;
+		scripts?: Record<string, string>;
+		dependencies?: Record<string, string>;
+		devDependencies?: Record<string, string>;
+	},
+): AppInfo => ({
+	name: details.name ?? path.basename(dir),
+	path: dir,
+	relativePath: path.relative(index.root, dir) || ".",
+	type: "unknown",
+	source,
+	description: details.description,
+	// Makefile targets override the toolchain defaults, since they are what the project actually runs.
+	scripts: nonEmpty({ ...(details.scripts ?? {}), ...readMakeTargets(index, dir) }),
+	dependencies: details.dependencies ? nonEmpty(details.dependencies) : undefined,
+	devDependencies: details.devDependencies ? nonEmpty(details.devDependencies) : undefined,
+});
+
+const PYTHON_TASK_TABLES = ["tool.poe.tasks", "tool.pdm.scripts", "tool.taskipy.tasks", "tool.hatch.envs.default.scripts"];
+
+const createPythonApp = (index: FileIndex, dir: string) => {
+	const pyproject = readToml(index, path.join(dir, "pyproject.toml"));
+	if (pyproject && (pyproject.project || pyproject["tool.poetry"])) {
+		const project = pyproject.project;
+		const poetry = pyproject["tool.poetry"];
+		const optional = pyproject["project.optional-dependencies"] ?? {};
+		const devSpecs = [
+			...Object.values(optional).flatMap(toStringList),
+			...Object.values(pyproject["dependency-groups"] ?? {}).flatMap(toStringList),
+		];
+		const poetryDev = Object.entries(pyproject)
+			.filter(([name]) => name === "tool.poetry.dev-dependencies" || /^tool\.poetry\.group\.[^.]+\.dependencies$/.test(name))
+			.map(([, table]) => tableToRecord(table));
+		const scripts = Object.fromEntries(
+			PYTHON_TASK_TABLES.flatMap((name) =>
+				Object.entries(pyproject[name] ?? {}).map(([task, value]) => [task, typeof value === "string" ? value : task]),
+			),
+		);
+		const hasPytest = Boolean(pyproject["tool.pytest.ini_options"]) || devSpecs.some((spec) => parseRequirement(spec)?.[0] === "pytest");
+		return createLanguageApp(index, dir, "pyproject.toml", {
+			name: tomlString(project, "name") ?? tomlString(poetry, "name"),
+			description: tomlString(project, "description") ?? tomlString(poetry, "description"),
+			scripts: { ...(hasPytest ? { test: "pytest" } : {}), ...scripts },
+			dependencies: {
+				...requirementsToRecord(toStringList(project?.dependencies)),
+				...tableToRecord(pyproject["tool.poetry.dependencies"], ["python"]),
+			},
+			devDependencies: Object.assign(requirementsToRecord(devSpecs), ...poetryDev),
+		});
+	}
+	const setup = readIndexedText(index, path.join(dir, "setup.py"));
+	if (!setup) return undefined;
+	const setupString = (key: string) => setup.match(new RegExp(`\\b${key}\\s*=\\s*["']([^"']+)["']`))?.[1];
+	const listFor = (key: string) => {
+		const block = setup.match(new RegExp(`\\b${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`))?.[1] ?? "";
+		return Array.from(block.matchAll(/["']([^"']+)["']/g), (match) => match[1]);
+	};
+	return createLanguageApp(index, dir, "setup.py", {
+		name: setupString("name"),
+		description: setupString("description"),
+		dependencies: requirementsToRecord(listFor("install_requires")),
+		devDependencies: requirementsToRecord(listFor("tests_require")),
+	});
+};
+
+const createGoApp = (index: FileIndex, dir: string, source: AppSource) => {
+	const goMod = readIndexedText(index, path.join(dir, "go.mod"));
+	if (!goMod) return undefined;
+	const requires = [
+		...Array.from(goMod.matchAll(/^require\s+([^\s(]\S*)\s+(\S+)/gm), (match) => [match[1], match[2]]),
+		...Array.from(goMod.matchAll(/^require\s*\(([\s\S]*?)^\)/gm)).flatMap((block) =>
+			Array.from(block[1].matchAll(/^\s*(\S+)\s+(v\S+)/gm), (match) => [match[1], match[2]]),
+		),
+	];
+	return createLanguageApp(index, dir, source, {
+		name: goMod.match(/^module\s+(\S+)/m)?.[1],
+		scripts: { build: "go build ./...", test: "go test ./..." },
+		dependencies: Object.fromEntries(requires),
+	});
+};
+
+const createRustApp = (index: FileIndex, dir: string) => {
+	const cargo = readToml(index, path.join(dir, "Cargo.toml"));
+	if (!cargo?.package) return undefined;
+	return createLanguageApp(index, dir, "Cargo.toml", {
+		name: tomlString(cargo.package, "name"),
+		description: tomlString(cargo.package, "description"),
+		scripts: { build: "cargo build", test: "cargo test" },
+		dependencies: tableToRecord(cargo.dependencies),
+		devDependencies: tableToRecord(cargo["dev-dependencies"]),
+	});
+};
+
+const createMavenApp = (index: FileIndex, dir: string) => {
+	const pom = readIndexedText(index, path.join(dir, "pom.xml"));
+	if (!pom) return undefined;
+	// Project-level coordinates, ignoring the parent block and managed/plugin dependencies.
+	const own = pom.replace(/<(parent|dependencyManagement|build|profiles)>[\s\S]*?<\/\1>/g, "");
+	const tag = (source: string, name: string) => source.match(new RegExp(`<${name}>\\s*([^<]+?)\\s*</${name}>`))?.[1];
+	const dependencies: Record<string, string> = {};
+	const devDependencies: Record<string, string> = {};
+	for (const match of own.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g)) {
+		const groupId = tag(match[1], "groupId");
+		const artifactId = tag(match[1], "artifactId");
+		if (!groupId || !artifactId) continue;
+		const target = tag(match[1], "scope") === "test" ? devDependencies : dependencies;
+		target[`${groupId}:${artifactId}`] = tag(match[1], "version") ?? "*";
+	}
+	const mvn = isIndexedFile(index, path.join(index.root, "mvnw")) ? "./mvnw" : "mvn";
+	return createLanguageApp(index, dir, "pom.xml", {
+		name: tag(own, "artifactId"),
+		description: tag(own, "description") ?? tag(own, "name"),
+		scripts: { build: `${mvn} package`, test: `${mvn} test` },
+		dependencies,
+		devDependencies,
+	});
+};
+
+const GRADLE_BUILD_FILES = ["build.gradle", "build.gradle.kts"];
+const GRADLE_SETTINGS_FILES = ["settings.gradle", "settings.gradle.kts"];
+
+const createGradleApp = (index: FileIndex, dir: string, source: AppSource) => {
+	const repoRoot = index.root;
+	const buildFile = GRADLE_BUILD_FILES.map((name) => readIndexedText(index, path.join(dir, name))).find(
+		(text) => text !== undefined,
+	);
+	if (buildFile === undefined) return undefined;
+	const dependencies: Record<string, string> = {};
+	const devDependencies: Record<string, string> = {};
+	const declaration = /\b(\w*(?:implementation|api|compileOnly|runtimeOnly|Implementation|RuntimeOnly))\s*\(?\s*["']([^:"']+):([^:"']+)(?::([^"']+))?["']/g;
+	for (const match of buildFile.matchAll(declaration)) {
+		const target = match[1].startsWith("test") ? devDependencies : dependencies;
+		target[`${match[2]}:${match[3]}`] = match[4] ?? "*";
+	}
+	const gradle = isIndexedFile(index, path.join(repoRoot, "gradlew")) ? "./gradlew" : "gradle";
+	const prefix = dir === repoRoot ? "" : `:${path.relative(repoRoot, dir).split(path.sep).join(":")}:`;
+	return createLanguageApp(index, dir, source, {
+		description: buildFile.match(/^\s*description\s*=\s*["']([^"']+)["']/m)?.[1],
+		scripts: { build: `${gradle} ${prefix}build`, test: `${gradle} ${prefix}test` },
+		dependencies,
+		devDependencies,
+	});
+};
+
+// Declared members outside the index (ignored or missing directories) are dropped like any other excluded path.
+const readGradleIncludes = (index: FileIndex) => {
+	const settings = GRADLE_SETTINGS_FILES.map((name) => readIndexedText(index, path.join(index.root, name))).find(
+		(text) => text !== undefined,
+	);
+	if (!settings) return [];
+	return Array.from(settings.matchAll(/^\s*include\b\s*\(?([^\n)]*)/gm))
+		.flatMap((match) =>
+			Array.from(match[1].matchAll(/["']:?([^"']+)["']/g), (entry) => path.join(index.root, ...entry[1].split(":"))),
+		)
+		.filter((dir) => isIndexedPath(index, dir));
+};
+
+const readGoWorkUses = (index: FileIndex) => {
+	const goWork = readIndexedText(index, path.join(index.root, "go.work"));
+	if (!goWork) return undefined;
+	const uses = [
+		...Array.from(goWork.matchAll(/^use\s+(?!\()(\S+)/gm), (match) => match[1]),
+		...Array.from(goWork.matchAll(/^use\s*\(([\s\S]*?)^\)/gm)).flatMap((block) =>
+			stripTomlComment(block[1]).split(/\s+/).filter((entry) => entry && !entry.startsWith("//")),
+		),
+	];
+	return uses.map((use) => path.join(index.root, use)).filter((dir) => isIndexedPath(index, dir));
+};
+
+// Non-JavaScript apps. Workspace declarations (Cargo members, Maven modules, Gradle includes, go.work,
+// uv workspaces) are authoritative for their ecosystem; otherwise manifests are found by walking the tree.
+const discoverLanguageApps = (repoRoot: string, index: FileIndex) => {
+	const apps = new Map<string, AppInfo>();
+	const add = (app?: AppInfo) => {
+		if (app && !apps.has(app.path)) apps.set(app.path, app);
+	};
+	const candidates = [repoRoot, ...indexDirs(index)];
+	const withFile = (names: string[]) => candidates.filter((dir) => hasAnyFile(index, dir, names));
+	const expandMembers = (members: unknown, exclude: unknown) => {
+		const excluded = new Set(toStringList(exclude).flatMap((pattern) => expandDirGlob(index, pattern)));
+		return toStringList(members)
+			.flatMap((pattern) => expandDirGlob(index, pattern))
+			.filter((dir) => !excluded.has(dir));
+	};
+
+	const rootPyproject = readToml(index, path.join(repoRoot, "pyproject.toml"));
+	const uvWorkspace = rootPyproject?.["tool.uv.workspace"];
+	for (const dir of uvWorkspace ? [repoRoot, ...expandMembers(uvWorkspace.members, uvWorkspace.exclude)] : withFile(["pyproject.toml", "setup.py"])) {
+		add(createPythonApp(index, dir));
+	}
+
+	const goWorkUses = readGoWorkUses(index);
+	for (const dir of goWorkUses ?? withFile(["go.mod"])) {
+		add(createGoApp(index, dir, goWorkUses ? "go.work" : "go.mod"));
+	}
+
+	const rootCargo = readToml(index, path.join(repoRoot, "Cargo.toml"));
+	const cargoWorkspace = rootCargo?.workspace;
+	for (const dir of cargoWorkspace ? [repoRoot, ...expandMembers(cargoWorkspace.members, cargoWorkspace.exclude)] : withFile(["Cargo.toml"])) {
+		add(createRustApp(index, dir));
+	}
+
+	// Module paths may point back up the tree, so each directory is visited once.
+	const visitedMaven = new Set<string>();
+	const visitMaven = (dir: string) => {
+		const resolved = path.resolve(dir);
+		if (visitedMaven.has(resolved)) return;
+		visitedMaven.add(resolved);
+		const pom = readIndexedText(index, path.join(resolved, "pom.xml"));
+		if (!pom) return;
+		const modulesBlock = pom.match(/<modules>([\s\S]*?)<\/modules>/)?.[1] ?? "";
+		const modules = Array.from(modulesBlock.matchAll(/<module>\s*([^<]+?)\s*<\/module>/g), (match) => match[1]);
+		// Aggregator poms only group modules; they are not apps themselves.
+		if (!/<packaging>\s*pom\s*<\/packaging>/.test(pom)) add(createMavenApp(index, resolved));
+		for (const module of modules) visitMaven(path.join(resolved, module));
+	};
+	for (const dir of isIndexedFile(index, path.join(repoRoot, "pom.xml")) ? [repoRoot] : withFile(["pom.xml"])) {
+		visitMaven(dir);
+	}
+
+	const gradleIncludes = readGradleIncludes(index);
+	for (const dir of gradleIncludes.length ? gradleIncludes : withFile(GRADLE_BUILD_FILES)) {
+		add(createGradleApp(index, dir, gradleIncludes.length ? "settings.gradle" : "build.gradle"));
+	}
+
+	return Array.from(apps.values());
+};
+
+const discoverApps = (repoRoot: string, index: FileIndex) => {
+	const rootPackage = readIndexedJsonc(index, path.join(repoRoot, "package.json"));
+	const workspace = discoverWorkspaceApps(repoRoot, index);
+	const apps: AppInfo[] = workspace.apps;
+	// Declared workspaces are authoritative; the directory walk only runs for repos without any.
+	if (!workspace.declared) {
+		for (const dir of indexDirs(index)) {
+			const pkg = readIndexedJsonc(index, path.join(dir, "package.json"));
+			if (!pkg || path.resolve(dir) === path.resolve(repoRoot)) continue;
+			apps.push(createPackageApp(repoRoot, dir, pkg, "walk"));
+		}
+	}
+	if (apps.length === 0 && rootPackage) {
+		apps.push(createPackageApp(repoRoot, repoRoot, rootPackage, "root"));
+	}
+	for (const app of discoverLanguageApps(repoRoot, index)) {
+		const existing = apps.find((item) => path.resolve(item.path) === path.resolve(app.path));
+		if (!existing) {
+			apps.push(app);
+			continue;
+		}
+		// A manifest next to package.json (e.g. a napi-rs Cargo.toml) only fills in what the package app lacks.
+		existing.scripts = { ...app.scripts, ...existing.scripts };
+		existing.dependencies = { ...app.dependencies, ...existing.dependencies };
+		existing.devDependencies = { ...app.devDependencies, ...existing.devDependencies };
+	}
+
+	for (const app of apps) {
+		Object.assign(app, detectAppType(index, app));
+	}
+
+	return apps;
+};
+
+const getRepoFiles = (index: FileIndex) => new Set(index.files.map((file) => file.split("/")[0]));
+
+const getWorkflowFiles = (index: FileIndex) =>
+	index.files
+		.filter((file) => CI_PROVIDERS.some((provider) => provider.file.test(file)))
+		.map((file) => path.join(index.root, file));
+
+const hasAnyFile = (index: FileIndex, root: string, candidates: string[]) =>
+	candidates.some((name) => isIndexedPath(index, path.join(root, name)));
+
+const hasTestFiles = (index: FileIndex, root: string) => hasAnyFile(index, root, ["test", "tests", "__tests__", "spec"]);
+
+// Comments and trailing commas are allowed in biome.jsonc, .eslintrc.json, tsconfig.json and similar files.
+const parseJsonc = (text: string): unknown => {
+	let output = "";
+	for (let index = 0; index < text.length; index++) {
+		const char = text[index];
+		if (char === '"') {
+			const start = index;
+			for (index++; index < text.length && text[index] !== '"'; index++) {
+				if (text[index] === "\\") index++;
+			}
+			output += text.slice(start, index + 1);
+		} else if (char === "/" && text[index + 1] === "/") {
+			while (index < text.length && text[index] !== "\n") index++;
+			output += "\n";
+		} else if (char === "/" && text[index + 1] === "*") {
+			const end = text.indexOf("*/", index + 2);
+			index = end === -1 ? text.length : end + 1;
+		} else {
+			output += char;
+		}
+	}
+	return JSON.parse(output.replace(/,(\s*[}\]])/g, "$1"));
+};
+
+const toJsoncRecord = (text: string | undefined) => {
+	if (text === undefined) return undefined;
+	try {
+		const data = parseJsonc(text);
+		return isRecord(data) ? data : undefined;
+	} catch {
+		return undefined;
+	}
+};
+
+const readJsonc = (value: string) => toJsoncRecord(readText(value));
+
+const readIndexedJsonc = (index: FileIndex, file: string) => toJsoncRecord(readIndexedText(index, file));
+
+const toLintRuleState = (value: unknown): LintRuleState => {
+	const level = Array.isArray(value) ? value[0] : isRecord(value) ? value.level : value;
+	if (level === 0 || level === "off" || level === "allow") return "off";
+	if (level === 1 || level === "warn" || level === "info") return "warn";
+	return "error";
+};
+
+const toLintRules = (value: unknown, prefix = "") =>
+	Object.fromEntries(
+		Object.entries(isRecord(value) ? value : {}).map(([rule, setting]) => [`${prefix}${rule}`, toLintRuleState(setting)]),
+	);
+
+const findBlockEnd = (text: string, start: number) => {
+	let depth = 0;
+	for (let index = start; index < text.length; index++) {
+		if (text[index] === "{") depth++;
+		if (text[index] === "}" && --depth === 0) return index;
+	}
+	return text.length;
+};
+
+// JavaScript configs cannot be evaluated here; rule entries with literal severities inside `rules: { ... }`
+// blocks, `extends` strings and `<plugin>.configs.<name>` presets are read from the source text instead.
+const scanScriptLintConfig = (text: string) => {
+	const rules: Record<string, LintRuleState> = {};
+	for (const match of text.matchAll(/\brules\s*:\s*\{/g)) {
+		const start = (match.index ?? 0) + match[0].length - 1;
+		const block = text.slice(start, findBlockEnd(text, start));
+		for (const entry of block.matchAll(/["']?([@\w][\w@/.-]*)["']?\s*:\s*\[?\s*(["']?)(off|warn|error|0|1|2)\2/g)) {
+			rules[entry[1]] = toLintRuleState(/^\d$/.test(entry[3]) ? Number(entry[3]) : entry[3]);
+		}
+	}
+	const presets = [
+		...Array.from(text.matchAll(/["'](plugin:[^"']+|eslint:[^"']+)["']/g), (match) => match[1]),
+		...Array.from(text.matchAll(/\b([\w$]+)\.configs(?:\.|\[["'])([\w/-]+)/g), (match) => `${match[1]}/${match[2]}`),
+	];
+	return { rules, presets };
+};
+
+const readEslintData = (data: Record<string, unknown>) => ({
+	rules: Object.assign(
+		toLintRules(data.rules),
+		...asList(data.overrides).map((override) => (isRecord(override) ? toLintRules(override.rules) : {})),
+	) as Record<string, LintRuleState>,
+	presets: toScalarList(data.extends),
+});
+
+const ESLINT_FLAT_FILES = ["eslint.config.js", "eslint.config.mjs", "eslint.config.cjs", "eslint.config.ts", "eslint.config.mts", "eslint.config.cts"];
+const ESLINT_LEGACY_FILES = [".eslintrc.js", ".eslintrc.cjs", ".eslintrc.json", ".eslintrc", ".eslintrc.yaml", ".eslintrc.yml"];
+
+const resolveEslintConfig = (index: FileIndex, dir: string): Omit<LintConfig, "tool"> | undefined => {
+	for (const name of [...ESLINT_FLAT_FILES, ...ESLINT_LEGACY_FILES]) {
+		const text = readIndexedText(index, path.join(dir, name));
+		if (text === undefined) continue;
+		if (/\.[mc]?[jt]s$/.test(name)) return { file: path.join(dir, name), ...scanScriptLintConfig(text) };
+		try {
+			const data = name.endsWith(".json") ? parseJsonc(text) : parseYaml(text);
+			return { file: path.join(dir, name), ...readEslintData(isRecord(data) ? data : {}) };
+		} catch {
+			return { file: path.join(dir, name), rules: {}, presets: [] };
+		}
+	}
+	const pkg = readIndexedJsonc(index, path.join(dir, "package.json"));
+	if (isRecord(pkg?.eslintConfig)) return { file: path.join(dir, "package.json"), ...readEslintData(pkg.eslintConfig) };
+	return undefined;
+};
+
+// Biome groups rules by category, e.g. `linter.rules.style.useNamingConvention`.
+const resolveBiomeConfig = (index: FileIndex, dir: string): Omit<LintConfig, "tool"> | undefined => {
+	for (const name of ["biome.json", "biome.jsonc"]) {
+		const data = readIndexedJsonc(index, path.join(dir, name));
+		if (!data) continue;
+		const linter = isRecord(data.linter) ? data.linter : {};
+		const groups = isRecord(linter.rules) ? linter.rules : {};
+		const rules = Object.assign(
+			{},
+			...Object.entries(groups).map(([group, value]) => (isRecord(value) ? toLintRules(value, `${group}/`) : {})),
+		) as Record<string, LintRuleState>;
+		for (const [group, value] of Object.entries(groups)) {
+			if (isRecord(value) && typeof value.recommended === "boolean") delete rules[`${group}/recommended`];
+		}
+		return { file: path.join(dir, name), rules, presets: groups.recommended === false ? [] : ["recommended"] };
+	}
+	return undefined;
+};
+
+const resolveOxlintConfig = (index: FileIndex, dir: string): Omit<LintConfig, "tool"> | undefined => {
+	const file = path.join(dir, ".oxlintrc.json");
+	const data = readIndexedJsonc(index, file);
+	if (!data) return undefined;
+	const categories = Object.entries(isRecord(data.categories) ? data.categories : {})
+		.filter(([, level]) => toLintRuleState(level) !== "off")
+		.map(([category]) => `category:${category}`);
+	return { file, rules: toLintRules(data.rules), presets: [...toScalarList(data.extends), ...categories] };
+};
+
+const resolveFormatterConfig = (index: FileIndex, dir: string, names: string[], packageKey?: string): Omit<LintConfig, "tool"> | undefined => {
+	const name = names.find((candidate) => isIndexedFile(index, path.join(dir, candidate)));
+	if (name) return { file: path.join(dir, name), rules: {}, presets: [] };
+	const pkg = packageKey ? readIndexedJsonc(index, path.join(dir, "package.json")) : undefined;
+	return packageKey && pkg?.[packageKey] !== undefined ? { file: path.join(dir, "package.json"), rules: {}, presets: [] } : undefined;
+};
+
+// Ruff selects rule codes or prefixes (`N`, `C90`, `ALL`); ignored codes are recorded as "off".
+const resolveRuffConfig = (index: FileIndex, dir: string): Omit<LintConfig, "tool"> | undefined => {
+	const standalone = ["ruff.toml", ".ruff.toml"].find((name) => isIndexedFile(index, path.join(dir, name)));
+	const file = path.join(dir, standalone ?? "pyproject.toml");
+	const text = readIndexedText(index, file);
+	const toml = text === undefined ? undefined : parseToml(text);
+	const prefix = standalone ? "" : "tool.ruff";
+	if (!toml || (!standalone && !Object.keys(toml).some((name) => name === prefix || name.startsWith(`${prefix}.`)))) return undefined;
+	const base = toml[prefix] ?? {};
+	const lint = toml[prefix ? `${prefix}.lint` : "lint"] ?? {};
+	const codes = (key: string) => [...toStringList(base[key]), ...toStringList(base[`lint.${key}`]), ...toStringList(lint[key])];
+	const rules: Record<string, LintRuleState> = {};
+	for (const code of [...codes("select"), ...codes("extend-select")]) rules[code] = "error";
+	for (const code of codes("ignore")) rules[code] = "off";
+	return { file, rules, presets: [] };
+};
+
+// golangci-lint enables whole linters (`gocyclo`, `depguard`, ...), which are recorded as rules.
+const resolveGolangciConfig = (index: FileIndex, dir: string): Omit<LintConfig, "tool"> | undefined => {
+	for (const name of [".golangci.yml", ".golangci.yaml", ".golangci.json", ".golangci.toml"]) {
+		const file = path.join(dir, name);
+		const text = readIndexedText(index, file);
+		if (text === undefined) continue;
+		let linters: Record<string, unknown> = {};
+		try {
+			const data = name.endsWith(".toml") ? { linters: parseToml(text).linters } : parseYaml(text);
+			linters = isRecord(data) && isRecord(data.linters) ? data.linters : {};
+		} catch {
+			// keep the file as evidence even when its linters cannot be read
+		}
+		const rules: Record<string, LintRuleState> = {};
+		if (linters["enable-all"] === true || linters.default === "all") rules.all = "error";
+		for (const linter of toScalarList(linters.enable)) rules[linter] = "error";
+		for (const linter of toScalarList(linters.disable)) rules[linter] = "off";
+		return { file, rules, presets: [] };
+	}
+	return undefined;
+};
+
+const JS_LANGUAGES = ["JavaScript", "TypeScript", "Vue", "Svelte"];
+
+const LINT_RESOLVERS: {
+	tool: LintTool;
+	languages?: string[];
+	resolve: (index: FileIndex, dir: string) => Omit<LintConfig, "tool"> | undefined;
+}[] = [
+	{ tool: "eslint", languages: JS_LANGUAGES, resolve: resolveEslintConfig },
+	{ tool: "biome", languages: JS_LANGUAGES, resolve: resolveBiomeConfig },
+	{ tool: "oxlint", languages: JS_LANGUAGES, resolve: resolveOxlintConfig },
+	{
+		tool: "prettier",
+		resolve: (index, dir) =>
+			resolveFormatterConfig(
+				index,
+				dir,
+				[
+					".prettierrc",
+					".prettierrc.json",
+					".prettierrc.yaml",
+					".prettierrc.yml",
+					".prettierrc.js",
+					".prettierrc.cjs",
+					".prettierrc.mjs",
+					".prettierrc.toml",
+					"prettier.config.js",
+					"prettier.config.cjs",
+					"prettier.config.mjs",
+				],
+				"prettier",
+			),
+	},
+	{ tool: "dprint", resolve: (index, dir) => resolveFormatterConfig(index, dir, ["dprint.json", ".dprint.json", "dprint.jsonc", ".dprint.jsonc"]) },
+	{ tool: "ruff", languages: ["Python"], resolve: resolveRuffConfig },
+	{ tool: "golangci-lint", languages: ["Go"], resolve: resolveGolangciConfig },
+];
+
+// Like the tools themselves, the closest config between the app and the repo root wins for each tool.
+// Configs inherited from a parent directory are skipped when the app has none of the tool's languages,
+// so a root ESLint config does not count for a Python service.
+const resolveLintConfigs = (index: FileIndex, dir: string, appLanguages: string[] = []): LintConfig[] => {
+	const repoRoot = index.root;
+	const dirs: string[] = [];
+	for (let current = path.resolve(dir); ; current = path.dirname(current)) {
+		dirs.push(current);
+		if (current === path.resolve(repoRoot) || current === path.dirname(current)) break;
+	}
+	return LINT_RESOLVERS.flatMap(({ tool, languages, resolve }) => {
+		const inherits = !languages || appLanguages.length === 0 || languages.some((language) => appLanguages.includes(language));
+		for (const current of inherits ? dirs : dirs.slice(0, 1)) {
+			const config = resolve(index, current);
+			if (config) return [{ tool, ...config, file: toPosixPath(path.relative(repoRoot, config.file)) }];
+		}
+		return [];
+	});
+};
+
+// Rules per tool that satisfy a criterion, plus presets known to enable such rules.
+type LintRuleMatcher = { rules: Partial<Record<LintTool, RegExp>>; presets?: RegExp };
+
+const NAMING_LINT_RULES: LintRuleMatcher = {
+	rules: {
+		eslint: /(^|\/)(naming-convention|camelcase|filename-case|match-regex)$/,
+		biome: /^style\/use(Naming|Filenaming)Convention$/,
+		oxlint: /(^|\/)(camelcase|naming-convention|filename-case)$/,
+		ruff: /^N\d*$/,
+		"golangci-lint": /^(revive|stylecheck|predeclared)$/,
+	},
+	presets: /unicorn/,
+};
+
+const COMPLEXITY_LINT_RULES: LintRuleMatcher = {
+	rules: {
+		eslint: /(^|\/)(complexity|cognitive-complexity|max-depth)$/,
+		biome: /^complexity\/noExcessiveCognitiveComplexity$/,
+		oxlint: /(^|\/)(complexity|max-depth)$/,
+		ruff: /^C9(0\d*)?$/,
+		"golangci-lint": /^(gocyclo|cyclop|gocognit|maintidx|nestif)$/,
+	},
+	presets: /sonarjs/,
+};
+
+const MODULARIZATION_LINT_RULES: LintRuleMatcher = {
+	rules: {
+		eslint: /^boundaries\/|(^|\/)(no-cycle|no-restricted-paths|no-restricted-imports|enforce-module-boundaries)$/,
+		biome: /\/noRestrictedImports$/,
+		oxlint: /(^|\/)(no-cycle|no-restricted-imports)$/,
+		ruff: /^TID\d*$/,
+		"golangci-lint": /^(depguard|gomodguard)$/,
+	},
+	presets: /boundaries/,
+};
+
+// Wildcards (`ALL` in Ruff, `all` in golangci-lint) count for every tool-specific matcher.
+const findLintRule = (configs: LintConfig[], matcher: LintRuleMatcher) => {
+	for (const config of configs) {
+		const pattern = matcher.rules[config.tool];
+		if (!pattern) continue;
+		const rule = Object.entries(config.rules).find(
+			([name, state]) => state !== "off" && (pattern.test(name) || name.toLowerCase() === "all"),
+		);
+		if (rule) return `${rule[0]} in ${config.file}`;
+		const preset = matcher.presets && config.presets.find((name) => matcher.presets?.test(name));
+		if (preset) return `${preset} preset in ${config.file}`;
+	}
+	return undefined;
+};
+
+const describeLintConfigs = (configs: LintConfig[]) => configs.map((config) => `${config.tool}: ${config.file}`).join(", ");
+
+const hasLintConfig = (app: AppInfo) => {
+	const scripts = app.scripts ?? {};
+	return (app.lint ?? []).length > 0 || ["lint", "format"].some((key) => scripts[key]);
+};
+
+const hasTypeCheckConfig = (index: FileIndex, root: string, app: AppInfo) => {
+	const scripts = app.scripts ?? {};
+	const hasScript = ["typecheck", "check", "lint:types"].some((key) => scripts[key]);
+	return (
+		hasScript ||
+		hasAnyFile(index, root, ["tsconfig.json", "tsconfig.base.json", "jsconfig.json", "mypy.ini", "pyrightconfig.json"])
+	);
+};
+
+const hasCoverageConfig = (index: FileIndex, root: string, app: AppInfo) => {
+	const scripts = app.scripts ?? {};
+	const hasScript = ["coverage", "test:coverage"].some((key) => scripts[key]);
+	return hasScript || hasAnyFile(index, root, ["nyc.config.js", "nyc.config.cjs", "jest.config.js", "jest.config.ts"]) ||
+		!!(app.packageJson && (app.packageJson.nyc || app.packageJson.jest));
+};
+
+const hasPreCommitHooks = (index: FileIndex, repoRoot: string) => {
+	return (
+		isIndexedPath(index, path.join(repoRoot, ".husky")) ||
+		hasAnyFile(index, repoRoot, [".lintstagedrc", ".lintstagedrc.js", ".lintstagedrc.cjs", ".pre-commit-config.yaml"]) ||
+		(() => {
+			const pkg = readIndexedJsonc(index, path.join(repoRoot, "package.json"));
+			return Boolean(pkg && (pkg["lint-staged"] || pkg["husky"]));
+		})()
+	);
+};
+
+const hasReleaseAutomation = (index: FileIndex, repoRoot: string) => {
+	return (
+		isIndexedPath(index, path.join(repoRoot, ".changeset")) ||
+		hasAnyFile(index, repoRoot, [".releaserc", ".releaserc.json", "release.config.js", "changeset.config.js"]) ||
+		(() => {
+			const pkg = readIndexedJsonc(index, path.join(repoRoot, "package.json"));
+			return Boolean(pkg && (pkg["release"] || pkg["changeset"] || pkg["semantic-release"]));
+		})()
+	);
+};
+
+const hasDependencyAutomation = (index: FileIndex, repoRoot: string) => {
+	return hasAnyFile(index, repoRoot, ["renovate.json", "renovate.json5"]) || isIndexedPath(index, path.join(repoRoot, ".github", "dependabot.yml"));
+};
+
+const hasRunbooks = (index: FileIndex, repoRoot: string) => {
+	return (
+		isIndexedPath(index, path.join(repoRoot, "docs", "runbook")) ||
+		hasAnyFile(index, repoRoot, ["runbook.md", "RUNBOOK.md", "ops.md", "OPERATIONS.md"]) ||
+		isIndexedPath(index, path.join(repoRoot, "ops"))
+	);
+};
+
+const hasScheduledAutomation = (repo: RepoContext) =>
+	findWorkflowMatch(repo, { workflow: (workflow) => workflow.triggers.includes("schedule") });
+
+const hasSetupInstructions = (readme?: string) => {
+	if (!readme) return false;
+	const text = readme.toLowerCase();
+	return ["install", "setup", "usage", "getting started"].some((word) => text.includes(word));
+};
+
+const getDependencies = (app: AppInfo) => ({ ...(app.dependencies ?? {}), ...(app.devDependencies ?? {}) });
+
+const hasAnyDependency = (app: AppInfo, names: string[]) => {
 	const deps = Object.keys(getDependencies(app));
 	return names.some((name) => deps.includes(name));
 };
 
 const hasAnyDependencyAcrossApps = (apps: AppInfo[], names: string[]) => apps.some((app) => hasAnyDependency(app, names));
 
-const hasAnyFileInPaths = (paths: string[], names: string[]) =>
-	paths.some((base) => names.some((name) => fileExists(path.join(base, name))));
+const hasAnyFileInPaths = (index: FileIndex, paths: string[], names: string[]) =>
+	paths.some((base) => hasAnyFile(index, base, names));
 
-const readWorkflowContents = (workflows: string[]) => workflows.map((file) => readText(file) ?? "").join("\n");
+const readWorkflowContents = (repo: RepoContext) =>
+	repo.workflows.map((file) => readIndexedText(repo.index, file) ?? "").join("\n");
 
-const hasWorkflowMatch = (workflows: string[], matcher: RegExp) =>
-	workflows.some((file) => {
-		const content = readText(file);
+const hasWorkflowMatch = (repo: RepoContext, matcher: RegExp) =>
+	repo.workflows.some((file) => {
+		const content = readIndexedText(repo.index, file);
 		return content ? matcher.test(content) : false;
 	});
 
-const walkFiles = (dir: string, depth = 0, results: string[] = []) => {
-	if (depth > MAX_WALK_DEPTH) return results;
-	for (const entry of listFiles(dir)) {
-		if (entry.name.startsWith(".")) continue;
-		const full = path.join(dir, entry.name);
-		if (entry.isDirectory()) {
-			if (EXCLUDED_DIRS.has(entry.name)) continue;
-			walkFiles(full, depth + 1, results);
-		} else if (entry.isFile()) {
-			results.push(full);
+const toScalarList = (value: unknown) =>
+	(Array.isArray(value) ? value : value === undefined || value === null ? [] : [value])
+		.filter((item) => ["string", "number", "boolean"].includes(typeof item))
+		.map(String);
+
+const asList = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined || value === null ? [] : [value]);
+
+const optionalString = (value: unknown) => (typeof value === "string" && value ? value : undefined);
+
+const toScalarRecord = (value: unknown) =>
+	Object.fromEntries(
+		Object.entries(isRecord(value) ? value : {}).flatMap(([key, input]) =>
+			toScalarList(input).length ? [[key, toScalarList(input).join(",")]] : [],
+		),
+	);
+
+const createJob = (id: string, fields: Partial<WorkflowJob> = {}): WorkflowJob => ({
+	id,
+	runsOn: [],
+	needs: [],
+	matrix: false,
+	cache: false,
+	steps: [],
+	...fields,
+});
+
+const commandSteps = (commands: unknown[]): WorkflowStep[] =>
+	commands.flatMap((command) => toScalarList(command)).map((run, index) => ({ index, run, with: {} }));
+
+const usesStep = (index: number, uses: string, inputs?: unknown, name?: string): WorkflowStep => ({
+	index,
+	name,
+	uses,
+	with: toScalarRecord(inputs),
+});
+
+const reindexSteps = (steps: WorkflowStep[]) => steps.map((step, index) => ({ ...step, index }));
+
+const parseYamlMapping = (text: string) => {
+	const data = parseYaml(text);
+	if (!isRecord(data)) throw new Error("not a YAML mapping");
+	return data;
+};
+
+type ParsedPipeline = Omit<CiWorkflow, "file" | "provider" | "error">;
+
+const parseGithubStep = (value: unknown, index: number): WorkflowStep => {
+	const step = isRecord(value) ? value : {};
+	return {
+		index,
+		id: optionalString(step.id),
+		name: optionalString(step.name),
+		uses: optionalString(step.uses),
+		run: optionalString(step.run),
+		with: toScalarRecord(step.with),
+	};
+};
+
+// `on` may be a single event, a list of events or a map of events to their filters.
+const parseGithubWorkflow = (text: string): ParsedPipeline => {
+	const data = parseYamlMapping(text);
+	const on = data.on;
+	const events = isRecord(on) ? on : Object.fromEntries(toScalarList(on).map((event) => [event, undefined]));
+	const filters = Object.values(events).filter(isRecord);
+	return {
+		name: optionalString(data.name),
+		triggers: Object.keys(events),
+		schedules: asList(events.schedule).flatMap((entry) => (isRecord(entry) ? toScalarList(entry.cron) : [])),
+		paths: filters.flatMap((filter) => toScalarList(filter.paths)),
+		jobs: Object.entries(isRecord(data.jobs) ? data.jobs : {}).map(([id, value]) => {
+			const job = isRecord(value) ? value : {};
+			return createJob(id, {
+				name: optionalString(job.name),
+				runsOn: toScalarList(job["runs-on"]),
+				needs: toScalarList(job.needs),
+				environment: optionalString(isRecord(job.environment) ? job.environment.name : job.environment),
+				matrix: isRecord(job.strategy) && job.strategy.matrix !== undefined,
+				uses: optionalString(job.uses),
+				steps: asList(job.steps).map(parseGithubStep),
+			});
+		}),
+	};
+};
+
+const GITLAB_RESERVED_KEYS = new Set([
+	"stages",
+	"variables",
+	"default",
+	"include",
+	"workflow",
+	"image",
+	"services",
+	"before_script",
+	"after_script",
+	"cache",
+	"spec",
+]);
+
+// Includes (templates, components, projects) play the role of GitHub `uses:` actions.
+const parseGitlabPipeline = (text: string): ParsedPipeline => {
+	const data = parseYamlMapping(text);
+	const defaults = isRecord(data.default) ? data.default : {};
+	const sharedCache = data.cache !== undefined || defaults.cache !== undefined;
+	const includes = asList(data.include).flatMap((entry) => {
+		if (typeof entry === "string") return [entry];
+		if (!isRecord(entry)) return [];
+		const target = entry.template ?? entry.component ?? entry.remote ?? entry.local ?? entry.project;
+		return typeof target === "string" ? [target] : [];
+	});
+	const rules = [
+		...asList(isRecord(data.workflow) ? data.workflow.rules : undefined),
+		...Object.values(data).flatMap((job) => (isRecord(job) ? asList(job.rules) : [])),
+	].filter(isRecord);
+	const pipelineText = JSON.stringify(data);
+	const jobs = Object.entries(data)
+		.filter(
+			(entry): entry is [string, Record<string, unknown>] =>
+				!GITLAB_RESERVED_KEYS.has(entry[0]) && !entry[0].startsWith(".") && isRecord(entry[1]),
+		)
+		.map(([id, job]) => {
+			return createJob(id, {
+				runsOn: toScalarList(job.tags),
+				needs: asList(job.needs).flatMap((need) => (isRecord(need) ? toScalarList(need.job) : toScalarList(need))),
+				environment: optionalString(isRecord(job.environment) ? job.environment.name : job.environment),
+				matrix: job.parallel !== undefined,
+				cache: sharedCache || job.cache !== undefined,
+				uses: optionalString(job.extends),
+				steps: commandSteps([
+					...asList(job.before_script ?? defaults.before_script),
+					...asList(job.script),
+					...asList(job.after_script ?? defaults.after_script),
+				]),
+			});
+		});
+	if (includes.length > 0) {
+		jobs.unshift(createJob("include", { steps: includes.map((include, index) => usesStep(index, include)) }));
+	}
+	return {
+		triggers: [
+			"push",
+			...(pipelineText.includes("merge_request_event") ? ["pull_request"] : []),
+			...(/CI_PIPELINE_SOURCE\s*==\s*\\?["']schedule/.test(pipelineText) ? ["schedule"] : []),
+		],
+		schedules: [],
+		paths: rules.flatMap((rule) => toScalarList(isRecord(rule.changes) ? rule.changes.paths : rule.changes)),
+		jobs,
+	};
+};
+
+// Orb commands and built-in steps such as `save_cache` become `uses` steps; `run` steps keep their command.
+const parseCircleciStep = (value: unknown, index: number): WorkflowStep => {
+	if (typeof value === "string") return usesStep(index, value);
+	const [key, body] = Object.entries(isRecord(value) ? value : {})[0] ?? ["unknown", undefined];
+	if (key !== "run") return usesStep(index, key, body, isRecord(body) ? optionalString(body.name) : undefined);
+	if (typeof body === "string") return { index, run: body, with: {} };
+	const run = isRecord(body) ? body : {};
+	return { index, name: optionalString(run.name), run: optionalString(run.command), with: {} };
+};
+
+const parseCircleciPipeline = (text: string): ParsedPipeline => {
+	const data = parseYamlMapping(text);
+	const definedJobs = isRecord(data.jobs) ? data.jobs : {};
+	const workflows = Object.values(isRecord(data.workflows) ? data.workflows : {}).filter(isRecord);
+	const references = workflows.flatMap((workflow) =>
+		asList(workflow.jobs).flatMap((entry) => {
+			if (typeof entry === "string") return [{ id: entry, options: {} as Record<string, unknown> }];
+			return Object.entries(isRecord(entry) ? entry : {}).map(([id, options]) => ({
+				id,
+				options: isRecord(options) ? options : {},
+			}));
+		}),
+	);
+	const schedules = workflows.flatMap((workflow) =>
+		asList(workflow.triggers).flatMap((trigger) =>
+			isRecord(trigger) && isRecord(trigger.schedule) ? toScalarList(trigger.schedule.cron) : [],
+		),
+	);
+	const jobIds = Array.from(new Set([...Object.keys(definedJobs), ...references.map((reference) => reference.id)]));
+	return {
+		triggers: ["push", "pull_request", ...(schedules.length > 0 ? ["schedule"] : [])],
+		schedules,
+		paths: [],
+		jobs: jobIds.map((id) => {
+			const defined = definedJobs[id];
+			const job = isRecord(defined) ? defined : undefined;
+			const usages = references.filter((reference) => reference.id === id);
+			const steps = asList(job?.steps).map(parseCircleciStep);
+			return createJob(id, {
+				// Jobs referenced by workflows but not defined locally come from orbs.
+				uses: job ? undefined : id,
+				needs: Array.from(new Set(usages.flatMap((usage) => toScalarList(usage.options.requires)))),
+				matrix: Number(job?.parallelism ?? 1) > 1 || usages.some((usage) => usage.options.matrix !== undefined),
+				cache: steps.some((step) => step.uses === "save_cache" || step.uses === "restore_cache"),
+				steps,
+			});
+		}),
+	};
+};
+
+const AZURE_SCRIPT_KEYS = ["script", "bash", "pwsh", "powershell"];
+
+const parseAzureStep = (value: unknown, index: number): WorkflowStep => {
+	const step = isRecord(value) ? value : {};
+	const name = optionalString(step.displayName) ?? optionalString(step.name);
+	const scriptKey = AZURE_SCRIPT_KEYS.find((key) => typeof step[key] === "string");
+	if (scriptKey) return { index, name, run: step[scriptKey] as string, with: {} };
+	const uses = optionalString(step.task) ?? optionalString(step.template) ?? (step.checkout !== undefined ? "checkout" : undefined);
+	return { index, name, uses, with: toScalarRecord(step.inputs ?? step.parameters) };
+};
+
+// Deployment jobs keep their steps under the rollout strategy (runOnce, rolling or canary) and its lifecycle hooks.
+const collectAzureSteps = (value: unknown): unknown[] => {
+	if (Array.isArray(value)) return value.flatMap(collectAzureSteps);
+	if (!isRecord(value)) return [];
+	return Object.entries(value).flatMap(([key, child]) =>
+		key === "steps" ? asList(child) : key === "matrix" ? [] : collectAzureSteps(child),
+	);
+};
+
+const parseAzureJob = (value: unknown, index: number): WorkflowJob => {
+	const job = isRecord(value) ? value : {};
+	const strategy = isRecord(job.strategy) ? job.strategy : {};
+	const id = optionalString(job.job) ?? optionalString(job.deployment) ?? optionalString(job.template) ?? `job-${index + 1}`;
+	return createJob(id, {
+		name: optionalString(job.displayName),
+		runsOn: toScalarList(isRecord(job.pool) ? job.pool.vmImage ?? job.pool.name : job.pool),
+		needs: toScalarList(job.dependsOn),
+		environment: optionalString(isRecord(job.environment) ? job.environment.name : job.environment),
+		matrix: strategy.matrix !== undefined || strategy.parallel !== undefined,
+		strategy: ["canary", "rolling", "runOnce"].find((kind) => strategy[kind] !== undefined),
+		uses: optionalString(job.template),
+		steps: reindexSteps([...asList(job.steps), ...collectAzureSteps(strategy)].map(parseAzureStep)),
+	});
+};
+
+const parseAzurePipeline = (text: string): ParsedPipeline => {
+	const data = parseYamlMapping(text);
+	const jobs = [
+		...asList(data.stages).flatMap((stage) => (isRecord(stage) ? asList(stage.jobs) : [])),
+		...asList(data.jobs),
+		...(data.steps !== undefined ? [{ job: "job", steps: data.steps, pool: data.pool }] : []),
+	].map(parseAzureJob);
+	for (const job of jobs) job.cache = job.steps.some((step) => /^Cache(Beta)?@/i.test(step.uses ?? ""));
+	const schedules = asList(data.schedules).flatMap((entry) => (isRecord(entry) ? toScalarList(entry.cron) : []));
+	const filters = [data.trigger, data.pr].filter(isRecord);
+	return {
+		name: optionalString(data.name),
+		triggers: [
+			...(data.trigger !== "none" ? ["push"] : []),
+			...(data.pr !== "none" ? ["pull_request"] : []),
+			...(schedules.length > 0 ? ["schedule"] : []),
+		],
+		schedules,
+		paths: filters.flatMap((filter) => (isRecord(filter.paths) ? toScalarList(filter.paths.include) : [])),
+		jobs,
+	};
+};
+
+const BITBUCKET_TRIGGERS: Record<string, string> = {
+	default: "push",
+	branches: "push",
+	tags: "push",
+	"pull-requests": "pull_request",
+	custom: "workflow_dispatch",
+};
+
+// Pipes play the role of GitHub `uses:` actions; every Bitbucket step is a job of its own.
+const parseBitbucketPipeline = (text: string): ParsedPipeline => {
+	const data = parseYamlMapping(text);
+	const pipelines = isRecord(data.pipelines) ? data.pipelines : {};
+	const jobs: WorkflowJob[] = [];
+	const visit = (items: unknown, section: string, parallel: boolean) => {
+		for (const item of asList(items).filter(isRecord)) {
+			if (item.parallel !== undefined) {
+				visit(isRecord(item.parallel) ? item.parallel.steps : item.parallel, section, true);
+			} else if (isRecord(item.stage)) {
+				visit(item.stage.steps, section, parallel);
+			} else if (isRecord(item.step)) {
+				const step = item.step;
+				const commands = [...asList(step.script), ...asList(step["after-script"])];
+				jobs.push(
+					createJob(optionalString(step.name) ?? `${section}-${jobs.length + 1}`, {
+						runsOn: toScalarList(step["runs-on"]),
+						environment: optionalString(step.deployment),
+						matrix: parallel,
+						cache: asList(step.caches).length > 0,
+						steps: commands.map((command, index) =>
+							isRecord(command) && typeof command.pipe === "string"
+								? usesStep(index, command.pipe, command.variables)
+								: { index, run: toScalarList(command).join("\n"), with: {} },
+						),
+					}),
+				);
+			}
 		}
+	};
+	for (const [section, value] of Object.entries(pipelines)) {
+		if (Array.isArray(value)) visit(value, section, false);
+		else if (isRecord(value)) for (const [pattern, items] of Object.entries(value)) visit(items, `${section}:${pattern}`, false);
+	}
+	return {
+		triggers: Array.from(new Set(Object.keys(pipelines).flatMap((section) => toScalarList(BITBUCKET_TRIGGERS[section])))),
+		schedules: [],
+		paths: [],
+		jobs,
+	};
+};
+
+// Plugins play the role of GitHub `uses:` actions; `wait`, `block` and `input` steps carry no work.
+const parseBuildkitePipeline = (text: string): ParsedPipeline => {
+	const parsed = parseYaml(text);
+	const data = Array.isArray(parsed) ? { steps: parsed } : isRecord(parsed) ? parsed : undefined;
+	if (!data) throw new Error("not a YAML mapping");
+	const jobs: WorkflowJob[] = [];
+	const visit = (items: unknown) => {
+		for (const item of asList(items).filter(isRecord)) {
+			if (item.group !== undefined || (Array.isArray(item.steps) && item.command === undefined)) {
+				visit(item.steps);
+				continue;
+			}
+			if (item.command === undefined && item.commands === undefined && item.trigger === undefined) continue;
+			const plugins = asList(item.plugins).flatMap((plugin): [string, unknown][] =>
+				typeof plugin === "string" ? [[plugin, undefined]] : Object.entries(isRecord(plugin) ? plugin : {}),
+			);
+			const commands = commandSteps([...asList(item.command), ...asList(item.commands)]);
+			jobs.push(
+				createJob(
+					optionalString(item.key) ?? optionalString(item.id) ?? optionalString(item.label) ?? `step-${jobs.length + 1}`,
+					{
+						name: optionalString(item.label) ?? optionalString(item.name),
+						runsOn: toScalarList(isRecord(item.agents) ? item.agents.queue : undefined),
+						needs: asList(item.depends_on).flatMap((need) => (isRecord(need) ? toScalarList(need.step) : toScalarList(need))),
+						matrix: Number(item.parallelism ?? 1) > 1 || item.matrix !== undefined,
+						cache: plugins.some(([name]) => /cache/i.test(name)),
+						uses: optionalString(item.trigger),
+						steps: reindexSteps([...plugins.map(([name, config], index) => usesStep(index, name, config)), ...commands]),
+					},
+				),
+			);
+		}
+	};
+	visit(data.steps);
+	return { triggers: ["push", "pull_request"], schedules: [], paths: [], jobs };
+};
+
+const JENKINS_COMMAND = /\b(?:sh|bat|powershell|pwsh)\s*\(?\s*(?:script\s*:\s*)?('''|"""|'|")([\s\S]*?)\1/g;
+
+// Jenkinsfiles are Groovy, so stages and their shell steps are picked out with patterns rather than parsed.
+const parseJenkinsfile = (text: string): ParsedPipeline => {
+	const stages = Array.from(text.matchAll(/\bstage\s*\(\s*['"]([^'"]+)['"]\s*\)/g));
+	const sections = stages.length
+		? stages.map((stage, index) => ({
+				id: stage[1],
+				body: text.slice((stage.index ?? 0) + stage[0].length, stages[index + 1]?.index ?? text.length),
+			}))
+		: [{ id: "pipeline", body: text }];
+	const schedules = Array.from(text.matchAll(/\bcron\s*\(\s*['"]([^'"]+)['"]/g)).map((match) => match[1]);
+	return {
+		triggers: [
+			"push",
+			...(/\bchangeRequest\b|CHANGE_ID/.test(text) ? ["pull_request"] : []),
+			...(schedules.length > 0 ? ["schedule"] : []),
+		],
+		schedules,
+		paths: [],
+		jobs: sections.map((section) =>
+			createJob(section.id, {
+				matrix: /\b(parallel|matrix)\s*\{/.test(section.body),
+				steps: commandSteps(Array.from(section.body.matchAll(JENKINS_COMMAND)).map((match) => match[2])),
+			}),
+		),
+	};
+};
+
+const CI_PROVIDERS: { provider: CiProvider; file: RegExp; parse: (text: string) => ParsedPipeline }[] = [
+	{ provider: "github", file: /^\.github\/workflows\/[^/]+\.ya?ml$/, parse: parseGithubWorkflow },
+	{ provider: "gitlab", file: /^\.gitlab-ci\.ya?ml$/, parse: parseGitlabPipeline },
+	{ provider: "circleci", file: /^\.circleci\/config\.ya?ml$/, parse: parseCircleciPipeline },
+	{ provider: "azure", file: /^(azure-pipelines|\.azure-pipelines\/[^/]+)\.ya?ml$/, parse: parseAzurePipeline },
+	{ provider: "bitbucket", file: /^bitbucket-pipelines\.ya?ml$/, parse: parseBitbucketPipeline },
+	{ provider: "buildkite", file: /^\.buildkite\/pipeline(\.[^/]+)?\.ya?ml$/, parse: parseBuildkitePipeline },
+	{ provider: "jenkins", file: /^Jenkinsfile(\.[^/]+)?$/, parse: parseJenkinsfile },
+];
+
+const parseWorkflow = (index: FileIndex, file: string): CiWorkflow => {
+	const relativeFile = indexKey(index, file);
+	const provider = CI_PROVIDERS.find((item) => item.file.test(relativeFile)) ?? CI_PROVIDERS[0];
+	try {
+		return { file: relativeFile, provider: provider.provider, ...provider.parse(readIndexedText(index, file) ?? "") };
+	} catch (error) {
+		return {
+			file: relativeFile,
+			provider: provider.provider,
+			triggers: [],
+			schedules: [],
+			paths: [],
+			jobs: [],
+			error: (error instanceof Error ? error.message : String(error)).split("\n")[0],
+		};
 	}
-	return results;
 };
 
-const walkFilesAll = (dir: string, results: string[] = []) => {
-	for (const entry of listFiles(dir)) {
-		if (entry.name.startsWith(".")) continue;
-		const full = path.join(dir, entry.name);
-		if (entry.isDirectory()) {
-			if (EXCLUDED_DIRS.has(entry.name)) continue;
-			walkFilesAll(full, results);
-		} else if (entry.isFile()) {
-			results.push(full);
+const parseWorkflows = (index: FileIndex, workflows: string[]) => workflows.map((file) => parseWorkflow(index, file));
+
+// Walks workflows, then jobs, then steps and returns the first element satisfying its predicate.
+const findWorkflowMatch = (
+	repo: RepoContext,
+	match: {
+		workflow?: (workflow: CiWorkflow) => boolean;
+		job?: (job: WorkflowJob, workflow: CiWorkflow) => boolean;
+		step?: (step: WorkflowStep, job: WorkflowJob, workflow: CiWorkflow) => boolean;
+	},
+): WorkflowMatch | undefined => {
+	for (const workflow of repo.ciWorkflows) {
+		if (workflow.error) continue;
+		if (match.workflow?.(workflow)) return { workflow };
+		for (const job of workflow.jobs) {
+			if (match.job?.(job, workflow)) return { workflow, job };
+			const step = match.step ? job.steps.find((item) => match.step?.(item, job, workflow)) : undefined;
+			if (step) return { workflow, job, step };
 		}
 	}
-	return results;
+	return undefined;
+};
+
+const describeWorkflowMatch = ({ workflow, job, step }: WorkflowMatch) => {
+	const parts = [workflow.file];
+	if (job) parts.push(`job ${job.id}`);
+	if (step) {
+		const command = step.run?.trim().split("\n")[0].slice(0, 60);
+		parts.push(`step ${step.name ?? step.uses ?? step.id ?? (command ? `\`${command}\`` : `#${step.index + 1}`)}`);
+	}
+	return parts.join(" › ");
 };
 
-const hasMatchingFile = (dir: string, matcher: RegExp) => walkFiles(dir).some((file) => matcher.test(file));
+const workflowResult = (match: WorkflowMatch | undefined, passed: string, failed: string) =>
+	match ? passResult(`${passed} (${describeWorkflowMatch(match)})`) : failResult(failed);
+
+const isNamed = (item: { id?: string; name?: string }, pattern: RegExp) =>
+	[item.id, item.name].some((value) => value !== undefined && pattern.test(value));
+
+const usesAction = (item: { uses?: string }, pattern: RegExp) => item.uses !== undefined && pattern.test(item.uses);
+
+const runsCommand = (step: WorkflowStep, pattern: RegExp) => step.run !== undefined && pattern.test(step.run);
+
+const hasMatchingFile = (index: FileIndex, dir: string, matcher: RegExp) =>
+	indexFilesUnder(index, dir).some((file) => matcher.test(file));
 
 const formatScore = (numerator: number, denominator: number) => (denominator === 0 ? "N/A" : `${numerator}/${denominator}`);
 
-const buildRepoSnapshot = (
-	repoRoot: string,
-	maxFiles = 800,
-	maxLargestFiles = 6,
-	maxChars = 1500,
-	maxTotalChars = 60000,
+const formatSnapshot = (
+	index: FileIndex,
+	files: string[],
+	snippetFiles: string[],
+	heading: string,
+	maxChars: number,
+	maxTotalChars: number,
 ) => {
-	const files = walkFilesAll(repoRoot).slice(0, maxFiles);
-	const tree = files.map((file) => path.relative(repoRoot, file)).sort();
-	const largest = files
-		.map((file) => {
-			try {
-				const stat = fs.statSync(file);
-				return { file, size: stat.size };
-			} catch {
-				return { file, size: 0 };
-			}
-		})
-		.sort((a, b) => b.size - a.size)
-		.slice(0, maxLargestFiles)
-		.map((entry) => {
-			const content = readText(entry.file) ?? "";
-			const snippet = content.slice(0, maxChars);
-			return {
-				path: path.relative(repoRoot, entry.file),
-				size: entry.size,
-				snippet: snippet || "<binary or empty>",
-			};
-		});
+	const tree = files.map((file) => path.relative(index.root, file)).sort();
+	const snippets = snippetFiles.map((file) => {
+		const content = readIndexedText(index, file) ?? "";
+		const snippet = content.slice(0, maxChars);
+		return {
+			path: path.relative(index.root, file),
+			size: indexedFileSize(index, file),
+			snippet: snippet || "<binary or empty>",
+		};
+	});
 
 	let snapshot = [
 		"FILE TREE (truncated if huge):",
 		...tree,
 		"",
-		"LARGEST FILES (truncated snippets):",
-		...largest.map((entry) => `# ${entry.path} (${entry.size} bytes)\n${entry.snippet}`),
+		heading,
+		...snippets.map((entry) => `# ${entry.path} (${entry.size} bytes)\n${entry.snippet}`),
 	].join("\n");
 
 	if (snapshot.length > maxTotalChars) {
@@ -519,143 +2570,599 @@ const buildRepoSnapshot = (
 	return snapshot;
 };
 
-const hasCodeFormatter = (root: string, app: AppInfo) =>
-	hasAnyFile(root, [".prettierrc", ".prettierrc.js", ".prettierrc.cjs", ".prettierrc.json", "prettier.config.js", "prettier.config.cjs"]) ||
-	hasAnyFile(app.path, [".prettierrc", ".prettierrc.js", ".prettierrc.cjs", ".prettierrc.json", "prettier.config.js", "prettier.config.cjs"]) ||
+const buildRepoSnapshot = (
+	index: FileIndex,
+	maxFiles = 800,
+	maxLargestFiles = 6,
+	maxChars = 1500,
+	maxTotalChars = 60000,
+) => {
+	const files = indexFilesUnder(index, index.root).slice(0, maxFiles);
+	const largest = files
+		.map((file) => ({ file, size: indexedFileSize(index, file) }))
+		.sort((a, b) => b.size - a.size)
+		.slice(0, maxLargestFiles)
+		.map((entry) => entry.file);
+
+	return formatSnapshot(index, files, largest, "LARGEST FILES (truncated snippets):", maxChars, maxTotalChars);
+};
+
+// Files whose contents are most useful as evidence for each category's criteria.
+const categorySnapshotFocus: Record<string, RegExp> = {
+	"Style & Validation":
+		/(^|\/)(\.?eslint[^/]*|\.?prettier[^/]*|biome\.jsonc?|tsconfig[^/]*\.json|ruff\.toml|mypy\.ini|pyrightconfig\.json|\.gitattributes|package\.json)$/i,
+	"Build System":
+		/(^\.github\/workflows\/|^\.gitlab-ci\.ya?ml$|^\.circleci\/|^\.buildkite\/|^(azure|bitbucket)-pipelines\.ya?ml$|^Jenkinsfile|(^|\/)(package\.json|turbo\.json|nx\.json|lerna\.json|pnpm-workspace\.yaml|renovate\.json5?|\.releaserc[^/]*|release-please[^/]*|syncpack[^/]*)$)/i,
+	Testing: /((^|\/)(jest|vitest|playwright|cypress|pytest)[^/]*\.(js|cjs|mjs|ts|json|ini|toml)$|\.(test|spec)\.[jt]sx?$|(^|\/)package\.json$)/i,
+	Documentation: /(\.mdx?$|(^|\/)(openapi\.ya?ml|swagger\.json|schema\.graphql)$)/i,
+	"Development Environment":
+		/(^\.devcontainer\/|(^|\/)(docker-compose\.ya?ml|compose\.yaml|\.env\.(example|template)|env\.example|schema\.prisma|schema\.sql)$|(^|\/)migrations\/)/i,
+	"Debugging & Observability": /((^|\/)package\.json$|(log|logger|trac|metric|health|sentry|telemetry|alert)[^/]*\.(js|ts|py|go|rb|ya?ml)$)/i,
+	Security: /(^\.github\/(workflows\/|dependabot\.ya?ml|CODEOWNERS)|(^|\/)(CODEOWNERS|\.gitignore|\.?gitleaks\.toml|\.trivy\.yml|SECURITY\.md|PII\.md|privacy\.md)$)/i,
+	"Task Discovery": /(^\.github\/(ISSUE_TEMPLATE\/|PULL_REQUEST_TEMPLATE|labels\.)|(^|\/)PULL_REQUEST_TEMPLATE\.md$)/i,
+	"Product & Experimentation": /(^|\/)package\.json$/i,
+};
+
+const buildCategorySnapshot = (
+	index: FileIndex,
+	category: string,
+	workflows: string[],
+	maxFiles = 800,
+	maxFocusFiles = 12,
+	maxChars = 1500,
+	maxTotalChars = 30000,
+) => {
+	const focus = categorySnapshotFocus[category];
+	if (!focus) return buildRepoSnapshot(index, maxFiles, 6, maxChars, maxTotalChars);
+	const files = Array.from(new Set([...indexFilesUnder(index, index.root).slice(0, maxFiles), ...workflows]));
+	const focusFiles = files
+		.filter((file) => focus.test(toPosixPath(path.relative(index.root, file))))
+		.slice(0, maxFocusFiles);
+	return formatSnapshot(
+		index,
+		files,
+		focusFiles,
+		`${category.toUpperCase()} FILES (truncated snippets):`,
+		maxChars,
+		maxTotalChars,
+	);
+};
+
+const hasCodeFormatter = (index: FileIndex, root: string, app: AppInfo) =>
+	hasAnyFile(index, root, [".prettierrc", ".prettierrc.js", ".prettierrc.cjs", ".prettierrc.json", "prettier.config.js", "prettier.config.cjs"]) ||
+	hasAnyFile(index, app.path, [".prettierrc", ".prettierrc.js", ".prettierrc.cjs", ".prettierrc.json", "prettier.config.js", "prettier.config.cjs"]) ||
 	Boolean(app.packageJson && app.packageJson.prettier);
 
-const hasStrictTyping = (root: string, app: AppInfo) => {
-	if (fileExists(path.join(root, "tsconfig.json"))) {
-		const config = readJson(path.join(root, "tsconfig.json"));
-		if (config && typeof config === "object") {
-			const compilerOptions = (config as Record<string, unknown>).compilerOptions as Record<string, unknown> | undefined;
-			if (compilerOptions && compilerOptions.strict === true) return true;
+const STRICT_FAMILY_FLAGS = [
+	"noImplicitAny",
+	"strictNullChecks",
+	"strictFunctionTypes",
+	"strictBindCallApply",
+	"strictPropertyInitialization",
+	"noImplicitThis",
+	"useUnknownInCatchVariables",
+	"alwaysStrict",
+];
+
+const EXTRA_STRICT_FLAGS = [
+	"noUncheckedIndexedAccess",
+	"exactOptionalPropertyTypes",
+	"noImplicitOverride",
+	"noImplicitReturns",
+	"noFallthroughCasesInSwitch",
+	"noPropertyAccessFromIndexSignature",
+	"noUnusedLocals",
+	"noUnusedParameters",
+];
+
+// Compiler options of well-known shared configs, used when node_modules is not installed.
+const KNOWN_TSCONFIG_PRESETS: Record<string, Record<string, unknown>> = {
+	"@tsconfig/strictest": {
+		strict: true,
+		exactOptionalPropertyTypes: true,
+		noFallthroughCasesInSwitch: true,
+		noImplicitOverride: true,
+		noImplicitReturns: true,
+		noPropertyAccessFromIndexSignature: true,
+		noUncheckedIndexedAccess: true,
+		noUnusedLocals: true,
+		noUnusedParameters: true,
+	},
+	"@tsconfig/recommended": { strict: true },
+};
+
+const MAX_TSCONFIG_EXTENDS = 16;
+
+// Installed packages and configs above the repo root are never indexed, so only those are read from disk.
+const isOutsideIndex = (index: FileIndex, file: string) => {
+	const key = indexKey(index, file);
+	return key.startsWith("..") || path.isAbsolute(key) || key.split("/").includes("node_modules");
+};
+
+const resolveTsconfigFile = (index: FileIndex, candidate: string) => {
+	for (const file of [candidate, `${candidate}.json`, path.join(candidate, "tsconfig.json")]) {
+		if (isOutsideIndex(index, file) ? statIndexedFile(file) : isIndexedFile(index, file)) return file;
+	}
+	return undefined;
+};
+
+// Package specs ("@tsconfig/strictest", "@org/config/tsconfig.base.json") are looked up in node_modules
+// from the extending config up to the repo root, honouring the package's `tsconfig` field.
+const resolveTsconfigExtends = (index: FileIndex, spec: string, fromDir: string) => {
+	if (spec.startsWith(".") || path.isAbsolute(spec)) return resolveTsconfigFile(index, path.resolve(fromDir, spec));
+	const parts = spec.split("/");
+	const packageName = spec.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+	const subpath = parts.slice(spec.startsWith("@") ? 2 : 1).join("/");
+	for (let dir = fromDir; ; dir = path.dirname(dir)) {
+		const packageDir = path.join(dir, "node_modules", packageName);
+		if (fileExists(packageDir)) {
+			if (subpath) return resolveTsconfigFile(index, path.join(packageDir, subpath));
+			const entry = readJson(path.join(packageDir, "package.json"))?.tsconfig;
+			return resolveTsconfigFile(index, path.join(packageDir, typeof entry === "string" ? entry : "tsconfig.json"));
 		}
+		if (dir === index.root || dir === path.dirname(dir)) return undefined;
+	}
+};
+
+// Resolves the nearest tsconfig.json for an app through its `extends` chain (string or array, JSONC, relative or
+// package specs). Later configs in the chain override earlier ones, as in tsc.
+const resolveTypeScriptProfile = (index: FileIndex, dir: string): TypeScriptProfile | undefined => {
+	const repoRoot = index.root;
+	let configFile: string | undefined;
+	for (let current = path.resolve(dir); ; current = path.dirname(current)) {
+		configFile = resolveTsconfigFile(index, path.join(current, "tsconfig.json"));
+		if (configFile || current === path.resolve(repoRoot) || current === path.dirname(current)) break;
 	}
-	return hasAnyFile(app.path, ["mypy.ini", "pyrightconfig.json"]);
+	if (!configFile) return undefined;
+	const chain: string[] = [];
+	const unresolved: string[] = [];
+	const visited = new Set<string>();
+	const load = (file: string): Record<string, unknown> => {
+		if (visited.has(file) || visited.size >= MAX_TSCONFIG_EXTENDS) return {};
+		visited.add(file);
+		chain.push(toPosixPath(path.relative(repoRoot, file)));
+		const config = (isOutsideIndex(index, file) ? readJsonc(file) : readIndexedJsonc(index, file)) ?? {};
+		let options: Record<string, unknown> = {};
+		for (const spec of toScalarList(config.extends)) {
+			const parent = resolveTsconfigExtends(index, spec, path.dirname(file));
+			if (parent) {
+				options = { ...options, ...load(parent) };
+			} else if (KNOWN_TSCONFIG_PRESETS[spec.replace(/\/tsconfig(\.json)?$/, "")]) {
+				chain.push(`${spec} (known preset)`);
+				options = { ...options, ...KNOWN_TSCONFIG_PRESETS[spec.replace(/\/tsconfig(\.json)?$/, "")] };
+			} else {
+				unresolved.push(spec);
+			}
+		}
+		return { ...options, ...(isRecord(config.compilerOptions) ? config.compilerOptions : {}) };
+	};
+	const options = load(configFile);
+	// `strict` switches on the whole strict family unless a flag is turned off explicitly.
+	const flags = Object.fromEntries([
+		...STRICT_FAMILY_FLAGS.map((flag) => [flag, typeof options[flag] === "boolean" ? options[flag] : options.strict === true]),
+		...EXTRA_STRICT_FLAGS.map((flag) => [flag, options[flag] === true]),
+	]) as Record<string, boolean>;
+	return {
+		config: toPosixPath(path.relative(repoRoot, configFile)),
+		chain,
+		unresolved,
+		strict: STRICT_FAMILY_FLAGS.every((flag) => flags[flag]),
+		flags,
+	};
 };
 
-const hasNamingConsistency = (root: string, app: AppInfo) => {
-	const config = readText(path.join(root, ".eslintrc")) ?? readText(path.join(root, ".eslintrc.json"));
-	return Boolean(config && /(naming-convention|camelcase|unicorn\/filename-case)/.test(config));
+const describeTypeScriptProfile = (profile: TypeScriptProfile) => {
+	const extras = EXTRA_STRICT_FLAGS.filter((flag) => profile.flags[flag]);
+	const disabled = STRICT_FAMILY_FLAGS.filter((flag) => !profile.flags[flag]);
+	return [
+		profile.strict ? "strict" : disabled.length === STRICT_FAMILY_FLAGS.length ? "not strict" : `strict without ${disabled.join(", ")}`,
+		...(extras.length ? [`+ ${extras.join(", ")}`] : []),
+	].join(" ");
 };
 
+const hasStrictTyping = (index: FileIndex, app: AppInfo) => hasAnyFile(index, app.path, ["mypy.ini", "pyrightconfig.json"]);
+
+const hasNamingConsistency = (app: AppInfo) => findLintRule(app.lint ?? [], NAMING_LINT_RULES);
+
 const hasDeadCodeDetection = (app: AppInfo) =>
 	hasAnyDependency(app, ["ts-prune", "depcheck", "eslint-plugin-unused-imports", "knip"]);
 
-const hasTechDebtTracking = (root: string) =>
-	hasAnyFile(root, ["sonar-project.properties", "codeclimate.yml"]) || fileExists(path.join(root, ".github", "workflows", "codeql.yml"));
+const hasTechDebtTracking = (index: FileIndex, root: string) =>
+	hasAnyFile(index, root, ["sonar-project.properties", "codeclimate.yml"]) || isIndexedPath(index, path.join(root, ".github", "workflows", "codeql.yml"));
 
 const hasNPlusOneDetection = (apps: AppInfo[]) =>
 	hasAnyDependencyAcrossApps(apps, ["nplusone", "bullet", "pghero", "django-silk"]);
 
-const hasCyclomaticComplexity = (root: string) => {
-	const config = readText(path.join(root, ".eslintrc")) ?? readText(path.join(root, ".eslintrc.json"));
-	return Boolean(config && /complexity/.test(config));
-};
+const hasCyclomaticComplexity = (repo: RepoContext) =>
+	findLintRule([...repo.apps.flatMap((app) => app.lint ?? []), ...resolveLintConfigs(repo.index, repo.root)], COMPLEXITY_LINT_RULES);
 
 const hasDuplicateCodeDetection = (apps: AppInfo[]) => hasAnyDependencyAcrossApps(apps, ["jscpd", "sonarqube-scanner"]);
 
 const hasModularizationEnforcement = (apps: AppInfo[]) =>
 	hasAnyDependencyAcrossApps(apps, ["eslint-plugin-boundaries", "eslint-plugin-import", "dependency-cruiser"]);
 
-const hasLargeFileDetection = (root: string) => {
-	const attrs = readText(path.join(root, ".gitattributes"));
+const hasLargeFileDetection = (index: FileIndex, root: string) => {
+	const attrs = readIndexedText(index, path.join(root, ".gitattributes"));
 	return Boolean(attrs && /filter=lfs/.test(attrs));
 };
 
-const hasAutomatedPrReview = (workflows: string[]) =>
-	hasWorkflowMatch(workflows, /(code-review|reviewdog|pull_request).*?review/i);
+// Review bots and AI reviewers; a bare /review/ would also match actions/dependency-review-action.
+const PR_REVIEW_ACTION =
+	/^(?:reviewdog\/|coderabbitai\/|anthropics\/claude-code-action|(?:qodo-ai|codium-ai)\/pr-agent)|(?:code|pr|ai)[-_]?review/i;
+const PR_REVIEW_JOB = /\b(?:code|pr|ai)[-_ ]?review|\breviewdog\b/i;
+
+const hasAutomatedPrReview = (repo: RepoContext) => {
+	const isPullRequest = (workflow: CiWorkflow) =>
+		workflow.triggers.some((trigger) => trigger === "pull_request" || trigger === "pull_request_target");
+	return findWorkflowMatch(repo, {
+		job: (job, workflow) => isPullRequest(workflow) && isNamed(job, PR_REVIEW_JOB),
+		step: (step, _job, workflow) =>
+			isPullRequest(workflow) && (usesAction(step, PR_REVIEW_ACTION) || runsCommand(step, /\breviewdog\b/)),
+	});
+};
 
-const hasDeploymentFrequency = (workflows: string[]) => hasWorkflowMatch(workflows, /deploy/i);
+const hasDeploymentFrequency = (repo: RepoContext) =>
+	findWorkflowMatch(repo, {
+		job: (job) => job.environment !== undefined || isNamed(job, /deploy/i),
+		step: (step) => isNamed(step, /deploy/i) || usesAction(step, /deploy|gh-pages/i) || runsCommand(step, /\bdeploy\b/i),
+	});
 
 const hasFeatureFlagInfra = (apps: AppInfo[]) =>
 	hasAnyDependencyAcrossApps(apps, ["launchdarkly", "unleash", "configcat", "growthbook", "flagsmith"]);
 
-const hasMonorepoTooling = (root: string, apps: AppInfo[]) =>
+const hasMonorepoTooling = (index: FileIndex, root: string, apps: AppInfo[]) =>
 	apps.length > 1 ||
-	hasAnyFile(root, ["pnpm-workspace.yaml", "turbo.json", "nx.json", "lerna.json", "rush.json"]);
+	hasAnyFile(index, root, ["pnpm-workspace.yaml", "turbo.json", "nx.json", "lerna.json", "rush.json"]);
 
-const hasVersionDriftDetection = (root: string) => hasAnyFile(root, ["syncpack.config.js", ".syncpackrc", "changeset.config.js"]);
+const hasVersionDriftDetection = (index: FileIndex, root: string) => hasAnyFile(index, root, ["syncpack.config.js", ".syncpackrc", "changeset.config.js"]);
 
 const hasHeavyDependencyDetection = (apps: AppInfo[]) =>
 	hasAnyDependencyAcrossApps(apps, ["bundlewatch", "size-limit", "webpack-bundle-analyzer"]);
 
 const hasBuildCommandDocumentation = (readme?: string) => readme ? /build/.test(readme.toLowerCase()) : false;
 
-const hasDependenciesPinned = (root: string) =>
-	hasAnyFile(root, ["package-lock.json", "pnpm-lock.yaml", "yarn.lock", "poetry.lock", "Cargo.lock", "Gemfile.lock"]);
+const hasDependenciesPinned = (index: FileIndex, root: string) =>
+	hasAnyFile(index, root, ["package-lock.json", "pnpm-lock.yaml", "yarn.lock", "poetry.lock", "Cargo.lock", "Gemfile.lock"]);
+
+const hasVcsCliTools = (index: FileIndex, root: string) =>
+	hasAnyFile(index, root, [".github" ]) || Boolean(readIndexedText(index, path.join(root, "README.md"))?.includes("gh "));
+
+const hasAgenticDevelopment = (index: FileIndex, root: string) => isIndexedPath(index, path.join(root, "AGENTS.md")) || isIndexedPath(index, path.join(root, ".pi"));
+
+const hasSingleCommandSetup = (apps: AppInfo[]) =>
+	apps.some((app) => (app.scripts ?? {}).setup || (app.scripts ?? {}).bootstrap);
+
+const hasReleaseNotesAutomation = (index: FileIndex, root: string) =>
+	hasAnyFile(index, root, [".changeset", "release-please-config.json", ".release-please-manifest.json"]);
+
+const hasUnusedDependenciesDetection = (apps: AppInfo[]) => hasAnyDependencyAcrossApps(apps, ["depcheck", "knip"]);
+
+const hasFastCiFeedback = (repo: RepoContext) =>
+	findWorkflowMatch(repo, {
+		job: (job) => job.matrix || job.cache,
+		step: (step) =>
+			usesAction(step, /^actions\/cache(\/|@)/) ||
+			(usesAction(step, /\/setup-/) && Boolean(step.with.cache) && step.with.cache !== "false") ||
+			runsCommand(step, /--parallel\b/),
+	});
+
+const hasBuildPerfTracking = (repo: RepoContext) =>
+	findWorkflowMatch(repo, {
+		job: (job) => isNamed(job, /perf|benchmark|timing/i),
+		step: (step) =>
+			usesAction(step, /benchmark|size-limit|compressed-size|bencher/i) ||
+			runsCommand(step, /\b(bench|benchmark|size-limit|hyperfine)\b|--timings\b/i),
+	});
+
+const hasProgressiveRollout = (repo: RepoContext) =>
+	findWorkflowMatch(repo, {
+		job: (job) =>
+			isNamed(job, /canary|progressive|rollout/i) || /canary/i.test(job.environment ?? "") || /canary|rolling/i.test(job.strategy ?? ""),
+		step: (step) =>
+			isNamed(step, /canary|progressive|rollout/i) ||
+			usesAction(step, /canary|rollout|flagger/i) ||
+			runsCommand(step, /\bcanary\b|argo rollouts|kubectl-argo-rollouts|--traffic\b/i),
+	});
+
+const hasRollbackAutomation = (repo: RepoContext) =>
+	findWorkflowMatch(repo, {
+		job: (job) => isNamed(job, /rollback|roll back/i),
+		step: (step) =>
+			isNamed(step, /rollback|roll back/i) ||
+			usesAction(step, /rollback/i) ||
+			runsCommand(step, /\brollback\b|rollout undo/i),
+	});
+
+const hasDeadFeatureFlagDetection = (index: FileIndex, apps: AppInfo[]) =>
+	hasAnyDependencyAcrossApps(apps, ["launchdarkly", "unleash"]) && hasMatchingFile(index, index.root, /flag.*dead/i);
+
+// Where each coverage tool keeps its minimum: Jest, Vitest, nyc/c8, coverage.py (`fail_under`), pytest-cov and go-test-coverage.
+const COVERAGE_THRESHOLD_SETTINGS: { files: string[]; pattern: RegExp }[] = [
+	{
+		files: ["jest.config.js", "jest.config.ts", "jest.config.mjs", "jest.config.cjs", "jest.config.json", "package.json"],
+		pattern: /coverageThreshold/,
+	},
+	{
+		files: ["vitest.config.ts", "vitest.config.mts", "vitest.config.js", "vitest.config.mjs", "vite.config.ts", "vite.config.js"],
+		pattern: /\bthresholds\s*:/,
+	},
+	{ files: [".nycrc", ".nycrc.json", ".nycrc.yml", ".nycrc.yaml", ".c8rc", ".c8rc.json", "package.json"], pattern: /check-coverage|checkCoverage/ },
+	{ files: [".coveragerc", "setup.cfg", "tox.ini", "pyproject.toml"], pattern: /^\s*fail_under\s*=/m },
+	{ files: ["pytest.ini", "setup.cfg", "tox.ini", "pyproject.toml"], pattern: /--cov-fail-under/ },
+	{ files: [".testcoverage.yml", ".testcoverage.yaml"], pattern: /^\s*threshold\s*:/m },
+];
+
+// Returns the config file that sets a coverage minimum, looking in the app directory first and then at the repo root.
+const findCoverageThresholds = (index: FileIndex, dirs: string[]) => {
+	for (const dir of dirs) {
+		for (const setting of COVERAGE_THRESHOLD_SETTINGS) {
+			const file = setting.files.find((name) => setting.pattern.test(readIndexedText(index, path.join(dir, name)) ?? ""));
+			if (file) return path.join(dir, file);
+		}
+	}
+	return undefined;
+};
+
+// Coverage artifacts are usually gitignored, so they are read from disk rather than from the file index.
+const COVERAGE_ARTIFACTS = [
+	"coverage/lcov.info",
+	"lcov.info",
+	"coverage/coverage-summary.json",
+	"coverage/cobertura-coverage.xml",
+	"coverage/coverage.xml",
+	"coverage.xml",
+	"target/site/cobertura/coverage.xml",
+	"coverage.out",
+	"cover.out",
+	"coverage.txt",
+];
 
-const hasVcsCliTools = (root: string) =>
-	hasAnyFile(root, [".github" ]) || Boolean(readText(path.join(root, "README.md"))?.includes("gh "));
+const createCoverageRecord = (file: string): CoverageRecord => ({
+	file,
+	linesCovered: 0,
+	linesTotal: 0,
+	branchesCovered: 0,
+	branchesTotal: 0,
+});
+
+const resolveCoveragePath = (file: string, baseDir: string) => path.resolve(baseDir, file);
+
+const parseLcov = (text: string, baseDir: string) => {
+	const records: CoverageRecord[] = [];
+	let current: CoverageRecord | undefined;
+	let totals: Record<string, number> = {};
+	for (const line of text.split(/\r?\n/)) {
+		const separator = line.indexOf(":");
+		const key = (separator >= 0 ? line.slice(0, separator) : line).trim();
+		const value = line.slice(separator + 1).trim();
+		if (key === "SF") {
+			current = createCoverageRecord(resolveCoveragePath(value, baseDir));
+			totals = {};
+		} else if (!current) {
+			continue;
+		} else if (key === "DA") {
+			current.linesTotal += 1;
+			if (Number(value.split(",")[1]) > 0) current.linesCovered += 1;
+		} else if (key === "BRDA") {
+			const taken = value.split(",")[3];
+			current.branchesTotal += 1;
+			if (taken !== "-" && Number(taken) > 0) current.branchesCovered += 1;
+		} else if (["LF", "LH", "BRF", "BRH"].includes(key)) {
+			totals[key] = Number(value);
+		} else if (key === "end_of_record") {
+			// Summary lines only matter when the per-line entries were stripped.
+			if (!current.linesTotal && totals.LF) {
+				current.linesTotal = totals.LF;
+				current.linesCovered = totals.LH ?? 0;
+			}
+			if (!current.branchesTotal && totals.BRF) {
+				current.branchesTotal = totals.BRF;
+				current.branchesCovered = totals.BRH ?? 0;
+			}
+			records.push(current);
+			current = undefined;
+		}
+	}
+	return records;
+};
 
-const hasAgenticDevelopment = (root: string) => fileExists(path.join(root, "AGENTS.md")) || fileExists(path.join(root, ".pi"));
+// Cobertura XML, also written by coverage.py (`coverage xml`), JaCoCo converters and most .NET tools.
+const parseCoberturaXml = (text: string, baseDir: string) => {
+	const attribute = (source: string, name: string) => source.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+	const sources = Array.from(text.matchAll(/<source>\s*([^<]+?)\s*<\/source>/g), (match) => match[1]);
+	const base = sources.find((source) => path.isAbsolute(source) && fileExists(source)) ?? baseDir;
+	const records = new Map<string, CoverageRecord>();
+	for (const match of text.matchAll(/<class\b([^>]*?)(\/>|>([\s\S]*?)<\/class>)/g)) {
+		const filename = attribute(match[1], "filename");
+		if (!filename || !match[3]) continue;
+		const file = resolveCoveragePath(filename.replace(/&amp;/g, "&"), base);
+		const record = records.get(file) ?? createCoverageRecord(file);
+		records.set(file, record);
+		// Method blocks repeat the lines already listed for their class.
+		for (const line of match[3].replace(/<methods>[\s\S]*?<\/methods>/g, "").matchAll(/<line\b([^>]*)>/g)) {
+			record.linesTotal += 1;
+			if (Number(attribute(line[1], "hits")) > 0) record.linesCovered += 1;
+			const conditions = attribute(line[1], "condition-coverage")?.match(/\((\d+)\/(\d+)\)/);
+			if (conditions) {
+				record.branchesCovered += Number(conditions[1]);
+				record.branchesTotal += Number(conditions[2]);
+			}
+		}
+	}
+	return Array.from(records.values());
+};
 
-const hasSingleCommandSetup = (apps: AppInfo[]) =>
-	apps.some((app) => (app.scripts ?? {}).setup || (app.scripts ?? {}).bootstrap);
+// Istanbul `json-summary` reporter output: a `total` entry plus one entry per source file.
+const parseIstanbulSummary = (data: Record<string, unknown>, baseDir: string) =>
+	Object.entries(data)
+		.filter((item): item is [string, Record<string, unknown>] => item[0] !== "total" && isRecord(item[1]))
+		.map(([file, entry]) => {
+			const count = (metric: string, key: string) => {
+				const counts = entry[metric];
+				return isRecord(counts) && typeof counts[key] === "number" ? counts[key] : 0;
+			};
+			return {
+				file: resolveCoveragePath(file, baseDir),
+				linesCovered: count("lines", "covered"),
+				linesTotal: count("lines", "total"),
+				branchesCovered: count("branches", "covered"),
+				branchesTotal: count("branches", "total"),
+			};
+		});
 
-const hasReleaseNotesAutomation = (root: string) =>
-	hasAnyFile(root, [".changeset", "release-please-config.json", ".release-please-manifest.json"]);
+// Go cover profiles list statement blocks by import path; blocks repeated across test binaries are merged.
+const parseGoCoverProfile = (text: string, baseDir: string) => {
+	const module = readText(path.join(baseDir, "go.mod"))?.match(/^module\s+(\S+)/m)?.[1];
+	const blocks = new Map<string, { file: string; statements: number; covered: boolean }>();
+	for (const line of text.split(/\r?\n/).slice(1)) {
+		const match = line.match(/^(.+):(\d+\.\d+,\d+\.\d+) (\d+) (\d+)$/);
+		if (!match) continue;
+		const key = `${match[1]}:${match[2]}`;
+		const block = blocks.get(key) ?? { file: match[1], statements: Number(match[3]), covered: false };
+		block.covered ||= Number(match[4]) > 0;
+		blocks.set(key, block);
+	}
+	const records = new Map<string, CoverageRecord>();
+	for (const block of blocks.values()) {
+		const file =
+			module && block.file.startsWith(`${module}/`)
+				? path.join(baseDir, block.file.slice(module.length + 1))
+				: resolveCoveragePath(block.file, baseDir);
+		const record = records.get(file) ?? createCoverageRecord(file);
+		records.set(file, record);
+		record.linesTotal += block.statements;
+		if (block.covered) record.linesCovered += block.statements;
+	}
+	return Array.from(records.values());
+};
 
-const hasUnusedDependenciesDetection = (apps: AppInfo[]) => hasAnyDependencyAcrossApps(apps, ["depcheck", "knip"]);
+const parseCoverageArtifact = (file: string, baseDir: string): Omit<CoverageArtifact, "file" | "mtimeMs"> | undefined => {
+	const text = readText(file);
+	if (!text) return undefined;
+	if (file.endsWith(".info")) return { format: "lcov", records: parseLcov(text, baseDir) };
+	if (file.endsWith(".json")) {
+		const data = readJson(file);
+		return data ? { format: "istanbul", records: parseIstanbulSummary(data, baseDir) } : undefined;
+	}
+	if (file.endsWith(".xml")) {
+		if (!/<coverage\b/.test(text)) return undefined;
+		return { format: /coverage\.py/.test(text) ? "coverage.py" : "cobertura", records: parseCoberturaXml(text, baseDir) };
+	}
+	return /^mode: (set|count|atomic)\s*$/m.test(text.split("\n", 1)[0])
+		? { format: "go", records: parseGoCoverProfile(text, baseDir) }
+		: undefined;
+};
 
-const hasFastCiFeedback = (workflows: string[]) => hasWorkflowMatch(workflows, /(cache|matrix|parallel)/i);
-const hasBuildPerfTracking = (workflows: string[]) => hasWorkflowMatch(workflows, /(build performance|perf|timing)/i);
-const hasProgressiveRollout = (workflows: string[]) => hasWorkflowMatch(workflows, /(canary|progressive|rollout)/i);
-const hasRollbackAutomation = (workflows: string[]) => hasWorkflowMatch(workflows, /(rollback|roll back)/i);
-const hasDeadFeatureFlagDetection = (apps: AppInfo[]) =>
-	hasAnyDependencyAcrossApps(apps, ["launchdarkly", "unleash"]) && hasMatchingFile(process.cwd(), /flag.*dead/i);
+// Artifacts found in a directory, most recently written first.
+const loadCoverageArtifacts = (dir: string): CoverageArtifact[] =>
+	COVERAGE_ARTIFACTS.flatMap((candidate) => {
+		const file = path.join(dir, candidate);
+		const stat = statIndexedFile(file);
+		const parsed = stat ? parseCoverageArtifact(file, dir) : undefined;
+		return stat && parsed ? [{ file, mtimeMs: stat.mtimeMs, ...parsed }] : [];
+	}).sort((a, b) => b.mtimeMs - a.mtimeMs);
+
+const toCoverageMetric = (covered: number, total: number): CoverageMetric => ({
+	covered,
+	total,
+	percentage: total ? Math.round((covered / total) * 1000) / 10 : 0,
+});
+
+const summarizeCoverageRecords = (records: CoverageRecord[]) => {
+	const sum = (key: Exclude<keyof CoverageRecord, "file">) => records.reduce((total, record) => total + record[key], 0);
+	const branches = sum("branchesTotal");
+	return {
+		lines: toCoverageMetric(sum("linesCovered"), sum("linesTotal")),
+		branches: branches ? toCoverageMetric(sum("branchesCovered"), branches) : undefined,
+	};
+};
 
-const hasTestCoverageThresholds = (root: string) => {
-	const jestConfig = readText(path.join(root, "jest.config.js")) ?? readText(path.join(root, "jest.config.ts"));
-	return Boolean(jestConfig && /coverageThreshold/.test(jestConfig));
+// Assigns each app its coverage: its own artifacts win; otherwise records from repo-root artifacts (e.g. a merged
+// lcov.info) go to the most specific app containing the file, so the root app only keeps files no nested app claims.
+// Repo totals count every covered file once.
+const resolveCoverage = (apps: AppInfo[], repoRoot: string, threshold: number): Report["coverage"] => {
+	const rootArtifacts = loadCoverageArtifacts(repoRoot);
+	const byDepth = [...apps].sort((a, b) => path.resolve(b.path).length - path.resolve(a.path).length);
+	const isRootApp = (app: AppInfo) => path.resolve(app.path) === path.resolve(repoRoot);
+	const ownerOf = (file: string) =>
+		byDepth.find((app) => isRootApp(app) || file.startsWith(`${path.resolve(app.path)}${path.sep}`));
+	const counted = new Map<string, CoverageRecord>();
+	for (const app of apps) {
+		const candidates = [
+			...(isRootApp(app) ? [] : loadCoverageArtifacts(app.path)),
+			...rootArtifacts.map((artifact) => ({
+				...artifact,
+				records: artifact.records.filter((record) => ownerOf(record.file) === app),
+			})),
+		];
+		for (const artifact of candidates) {
+			const summary = summarizeCoverageRecords(artifact.records);
+			if (summary.lines.total === 0) continue;
+			app.coverage = {
+				file: toPosixPath(path.relative(repoRoot, artifact.file)),
+				format: artifact.format,
+				modifiedAt: new Date(artifact.mtimeMs).toISOString(),
+				...summary,
+			};
+			for (const record of artifact.records) {
+				if (!counted.has(record.file)) counted.set(record.file, record);
+			}
+			break;
+		}
+	}
+	const measured = apps.filter((app) => app.coverage).length;
+	if (measured === 0) return undefined;
+	return { ...summarizeCoverageRecords(Array.from(counted.values())), apps: measured, threshold };
 };
 
-const hasIntegrationTests = (root: string, app: AppInfo) =>
-	hasAnyFile(app.path, ["integration", "__integration__"]) || Boolean((app.scripts ?? {})["test:integration"]);
+const describeCoverage = (coverage: CoverageSummary) =>
+	`lines ${coverage.lines.percentage}%${coverage.branches ? `, branches ${coverage.branches.percentage}%` : ""} (${coverage.file}, ${coverage.format})`;
 
-const hasTestFileNaming = (root: string) => hasMatchingFile(root, /\.(test|spec)\.[jt]sx?$/);
+const hasIntegrationTests = (index: FileIndex, root: string, app: AppInfo) =>
+	hasAnyFile(index, app.path, ["integration", "__integration__"]) || Boolean((app.scripts ?? {})["test:integration"]);
+
+const hasTestFileNaming = (index: FileIndex, root: string) => hasMatchingFile(index, root, /\.(test|spec)\.[jt]sx?$/);
 
 const hasFlakyTestDetection = (apps: AppInfo[]) => hasAnyDependencyAcrossApps(apps, ["flaky", "jest-retries", "retry"]);
 
-const hasTestIsolation = (apps: AppInfo[]) => hasAnyDependencyAcrossApps(apps, ["testcontainers", "toxiproxy"]) ||
-	hasMatchingFile(process.cwd(), /testcontainers|sandbox/i);
+const hasTestIsolation = (index: FileIndex, apps: AppInfo[]) => hasAnyDependencyAcrossApps(apps, ["testcontainers", "toxiproxy"]) ||
+	hasMatchingFile(index, index.root, /testcontainers|sandbox/i);
 
 const hasTestPerformanceTracking = (apps: AppInfo[]) => hasAnyDependencyAcrossApps(apps, ["jest-performance", "pytest-benchmark"]);
 
-const hasSkillsConfig = (root: string) => fileExists(path.join(root, ".pi", "skills")) || fileExists(path.join(root, ".claude", "skills"));
+const hasSkillsConfig = (index: FileIndex, root: string) => isIndexedPath(index, path.join(root, ".pi", "skills")) || isIndexedPath(index, path.join(root, ".claude", "skills"));
 
-const hasApiSchemaDocs = (root: string) =>
-	hasAnyFile(root, ["openapi.yaml", "openapi.yml", "swagger.json", "schema.graphql", "api.md"]);
+const hasApiSchemaDocs = (index: FileIndex, root: string) =>
+	hasAnyFile(index, root, ["openapi.yaml", "openapi.yml", "swagger.json", "schema.graphql", "api.md"]);
 
-const hasAgentsFreshnessValidation = (workflows: string[]) => hasWorkflowMatch(workflows, /agents\.md/i);
+const hasAgentsFreshnessValidation = (repo: RepoContext) =>
+	findWorkflowMatch(repo, {
+		workflow: (workflow) => workflow.paths.some((item) => /agents\.md/i.test(item)),
+		step: (step) => runsCommand(step, /agents\.md/i) || Object.values(step.with).some((value) => /agents\.md/i.test(value)),
+	});
 
-const hasDocumentationFreshness = (root: string) => {
-	try {
-		const docsPath = path.join(root, "docs");
-		if (!fileExists(docsPath)) return false;
-		const files = walkFiles(docsPath);
-		const cutoff = Date.now() - 1000 * 60 * 60 * 24 * 180;
-		return files.some((file) => fs.statSync(file).mtimeMs >= cutoff);
-	} catch {
-		return false;
-	}
+const hasDocumentationFreshness = (index: FileIndex, root: string) => {
+	const cutoff = Date.now() - 1000 * 60 * 60 * 24 * 180;
+	return indexFilesUnder(index, path.join(root, "docs")).some(
+		(file) => (index.entries.get(indexKey(index, file))?.mtimeMs ?? 0) >= cutoff,
+	);
 };
 
-const hasServiceArchitectureDoc = (root: string) =>
-	hasAnyFile(root, ["architecture.md", "ARCHITECTURE.md"]) || fileExists(path.join(root, "docs", "architecture"));
+const hasServiceArchitectureDoc = (index: FileIndex, root: string) =>
+	hasAnyFile(index, root, ["architecture.md", "ARCHITECTURE.md"]) || isIndexedPath(index, path.join(root, "docs", "architecture"));
 
-const hasAutoDocsGeneration = (apps: AppInfo[]) =>
-	hasAnyDependencyAcrossApps(apps, ["typedoc", "swagger-jsdoc", "redoc", "docusaurus"]) || fileExists(path.join(process.cwd(), "docs", "site"));
+const hasAutoDocsGeneration = (index: FileIndex, apps: AppInfo[]) =>
+	hasAnyDependencyAcrossApps(apps, ["typedoc", "swagger-jsdoc", "redoc", "docusaurus"]) ||
+	isIndexedPath(index, path.join(index.root, "docs", "site"));
 
-const hasDevContainer = (root: string) => fileExists(path.join(root, ".devcontainer"));
+const hasDevContainer = (index: FileIndex, root: string) => isIndexedPath(index, path.join(root, ".devcontainer"));
 
-const hasDatabaseSchema = (root: string) =>
-	hasAnyFile(root, ["schema.prisma", "schema.sql", "dbschema.json"]) || fileExists(path.join(root, "migrations"));
+const hasDatabaseSchema = (index: FileIndex, root: string) =>
+	hasAnyFile(index, root, ["schema.prisma", "schema.sql", "dbschema.json"]) || isIndexedPath(index, path.join(root, "migrations"));
 
-const hasEnvTemplate = (root: string) => hasAnyFile(root, [".env.example", ".env.template", "env.example"]);
+const hasEnvTemplate = (index: FileIndex, root: string) => hasAnyFile(index, root, [".env.example", ".env.template", "env.example"]);
 
-const hasLocalServicesSetup = (root: string) => hasAnyFile(root, ["docker-compose.yml", "docker-compose.yaml"]) || fileExists(path.join(root, "compose.yaml"));
+const hasLocalServicesSetup = (index: FileIndex, root: string) => hasAnyFile(index, root, ["docker-compose.yml", "docker-compose.yaml"]) || isIndexedPath(index, path.join(root, "compose.yaml"));
 
 const hasStructuredLogging = (apps: AppInfo[]) =>
 	hasAnyDependencyAcrossApps(apps, ["pino", "winston", "bunyan", "loguru", "structlog"]);
@@ -663,51 +3170,70 @@ const hasStructuredLogging = (apps: AppInfo[]) =>
 const hasDistributedTracing = (apps: AppInfo[]) =>
 	hasAnyDependencyAcrossApps(apps, ["@opentelemetry/api", "opentelemetry", "dd-trace", "newrelic"]);
 
-const hasCodeQualityDashboard = (root: string) => hasAnyFile(root, ["sonar-project.properties", "codeclimate.yml"]);
+const hasCodeQualityDashboard = (index: FileIndex, root: string) => hasAnyFile(index, root, ["sonar-project.properties", "codeclimate.yml"]);
 
 const hasErrorTracking = (apps: AppInfo[]) => hasAnyDependencyAcrossApps(apps, ["@sentry/node", "@sentry/react", "bugsnag", "rollbar"]);
 
-const hasAlertingConfigured = (root: string) => hasAnyFile(root, [".pagerduty.yml", "alertmanager.yml"]);
+const hasAlertingConfigured = (index: FileIndex, root: string) => hasAnyFile(index, root, [".pagerduty.yml", "alertmanager.yml"]);
 
 const hasMetricsCollection = (apps: AppInfo[]) =>
 	hasAnyDependencyAcrossApps(apps, ["prom-client", "opentelemetry", "statsd", "dd-trace"]);
 
-const hasDeploymentObservability = (workflows: string[]) => hasWorkflowMatch(workflows, /(datadog|newrelic|sentry)/i);
+const hasDeploymentObservability = (repo: RepoContext) =>
+	findWorkflowMatch(repo, {
+		step: (step) =>
+			usesAction(step, /getsentry|datadog|newrelic|honeycomb/i) ||
+			runsCommand(step, /\b(sentry-cli|datadog-ci|newrelic|honeymarker)\b/i),
+	});
 
-const hasHealthChecks = (root: string) => hasMatchingFile(root, /(health|status).*\.(js|ts|py|go|rb)/i);
+const hasHealthChecks = (index: FileIndex, root: string) => hasMatchingFile(index, root, /(health|status).*\.(js|ts|py|go|rb)/i);
 
 const hasCircuitBreakers = (apps: AppInfo[]) => hasAnyDependencyAcrossApps(apps, ["opossum", "cockatiel", "resilience4j"]);
 
 const hasProfilingInstrumentation = (apps: AppInfo[]) => hasAnyDependencyAcrossApps(apps, ["clinic", "pprof", "py-spy"]);
 
-const hasBranchProtection = (root: string) => hasAnyFile(root, [".github", "settings.yml", "settings.yaml"]);
+const hasBranchProtection = (index: FileIndex, root: string) => hasAnyFile(index, root, [".github", "settings.yml", "settings.yaml"]);
 
-const hasSecretScanning = (root: string) => hasAnyFile(root, [".gitleaks.toml", "gitleaks.toml", ".trivy.yml"]);
+const hasSecretScanning = (index: FileIndex, root: string) => hasAnyFile(index, root, [".gitleaks.toml", "gitleaks.toml", ".trivy.yml"]);
 
-const hasCodeowners = (root: string) =>
-	hasAnyFile(root, ["CODEOWNERS", ".github/CODEOWNERS", "docs/CODEOWNERS"]);
+const hasCodeowners = (index: FileIndex, root: string) =>
+	hasAnyFile(index, root, ["CODEOWNERS", ".github/CODEOWNERS", "docs/CODEOWNERS"]);
 
-const hasAutomatedSecurityReview = (workflows: string[]) => hasWorkflowMatch(workflows, /(codeql|security)/i);
+const hasAutomatedSecurityReview = (repo: RepoContext) =>
+	findWorkflowMatch(repo, {
+		job: (job) => isNamed(job, /codeql|security/i) && job.steps.length > 0,
+		step: (step) =>
+			usesAction(
+				step,
+				/codeql|snyk\/|trivy|gosec|semgrep|scorecard-action|gitleaks|dependency-review-action|trufflehog|anchore\/scan-action|(^|\/)(SAST|Secret-Detection|Dependency-Scanning|Container-Scanning)\b/i,
+			) || runsCommand(step, /\b(semgrep|snyk test|trivy|bandit|gosec|npm audit|pip-audit|cargo audit|govulncheck)\b/i),
+	});
 
 const hasSensitiveDataScrubbing = (apps: AppInfo[]) => hasAnyDependencyAcrossApps(apps, ["@sentry/node", "pino", "winston"]);
 
-const hasGitignoreComprehensive = (root: string) => fileExists(path.join(root, ".gitignore"));
+const hasGitignoreComprehensive = (index: FileIndex, root: string) => isIndexedPath(index, path.join(root, ".gitignore"));
 
-const hasSecretsManagement = (apps: AppInfo[]) =>
-	hasAnyDependencyAcrossApps(apps, ["@aws-sdk/client-secrets-manager", "vault", "doppler"]) || fileExists(path.join(process.cwd(), ".env"));
+const hasSecretsManagement = (index: FileIndex, apps: AppInfo[]) =>
+	hasAnyDependencyAcrossApps(apps, ["@aws-sdk/client-secrets-manager", "vault", "doppler"]) ||
+	isIndexedPath(index, path.join(index.root, ".env"));
 
-const hasDastScanning = (workflows: string[]) => hasWorkflowMatch(workflows, /(zap|dast)/i);
+const hasDastScanning = (repo: RepoContext) =>
+	findWorkflowMatch(repo, {
+		job: (job) => isNamed(job, /\bdast\b|\bzap\b/i),
+		step: (step) =>
+			usesAction(step, /zaproxy|stackhawk|nuclei|dast/i) || runsCommand(step, /\bzap-(baseline|full-scan|api-scan)|\bnuclei\b/i),
+	});
 
-const hasPiiHandling = (root: string) => hasAnyFile(root, ["PII.md", "privacy.md"]);
+const hasPiiHandling = (index: FileIndex, root: string) => hasAnyFile(index, root, ["PII.md", "privacy.md"]);
 
-const hasPrivacyCompliance = (root: string) => hasAnyFile(root, ["gdpr.md", "SOC2.md"]);
+const hasPrivacyCompliance = (index: FileIndex, root: string) => hasAnyFile(index, root, ["gdpr.md", "SOC2.md"]);
 
-const hasIssueTemplates = (root: string) => fileExists(path.join(root, ".github", "ISSUE_TEMPLATE"));
+const hasIssueTemplates = (index: FileIndex, root: string) => isIndexedPath(index, path.join(root, ".github", "ISSUE_TEMPLATE"));
 
-const hasIssueLabelingSystem = (root: string) => hasAnyFile(root, [".github/labels.yml", ".github/labels.json"]);
+const hasIssueLabelingSystem = (index: FileIndex, root: string) => hasAnyFile(index, root, [".github/labels.yml", ".github/labels.json"]);
 
-const hasPrTemplates = (root: string) =>
-	hasAnyFile(root, [".github/PULL_REQUEST_TEMPLATE.md", "PULL_REQUEST_TEMPLATE.md"]);
+const hasPrTemplates = (index: FileIndex, root: string) =>
+	hasAnyFile(index, root, [".github/PULL_REQUEST_TEMPLATE.md", "PULL_REQUEST_TEMPLATE.md"]);
 
 const hasProductAnalytics = (apps: AppInfo[]) =>
 	hasAnyDependencyAcrossApps(apps, ["segment", "@segment/analytics-node", "amplitude", "mixpanel", "posthog-js", "posthog"]);
@@ -718,7 +3244,8 @@ const hasNPlusOneDetectionForApp = (app: AppInfo) =>
 const hasDuplicateCodeDetectionForApp = (app: AppInfo) => hasAnyDependency(app, ["jscpd", "sonarqube-scanner"]);
 
 const hasModularizationEnforcementForApp = (app: AppInfo) =>
-	hasAnyDependency(app, ["eslint-plugin-boundaries", "eslint-plugin-import", "dependency-cruiser"]);
+	findLintRule(app.lint ?? [], MODULARIZATION_LINT_RULES) ??
+	(hasAnyDependency(app, ["dependency-cruiser"]) ? "dependency-cruiser" : undefined);
 
 const hasHeavyDependencyDetectionForApp = (app: AppInfo) =>
 	hasAnyDependency(app, ["bundlewatch", "size-limit", "webpack-bundle-analyzer"]);
@@ -756,18 +3283,21 @@ const buildCriteria = (): Criterion[] => [
 		id: "naming-consistency",
 		category: "Style & Validation",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 3,
 		title: "Naming Consistency",
 		description: "Lint rules enforce naming conventions.",
 		recommendation: "Add lint rules for naming conventions.",
 		scope: "app",
-		checkApp: (app, repo) => (hasNamingConsistency(repo.root, app) ? passResult("Naming rules configured") : failResult("No naming rules")),
+		checkApp: (app) => {
+			const rule = hasNamingConsistency(app);
+			return rule ? passResult(`Naming rules configured (${rule})`) : failResult("No naming rules");
+		},
 	},
 	{
 		id: "dead-code-detection",
 		category: "Style & Validation",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 3,
 		title: "Dead Code Detection",
 		description: "Tooling detects dead/unused code.",
 		recommendation: "Add dead code detection tooling (depcheck/knip/etc.).",
@@ -778,25 +3308,25 @@ const buildCriteria = (): Criterion[] => [
 		id: "technical-debt-tracking",
 		category: "Style & Validation",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 4,
 		title: "Technical Debt Tracking",
 		description: "Code quality tooling tracks technical debt.",
 		recommendation: "Add SonarQube/Code Climate or similar tooling.",
 		scope: "repo",
-		checkRepo: (repo) => (hasTechDebtTracking(repo.root) ? passResult("Tech debt tooling configured") : failResult("No tech debt tooling")),
+		checkRepo: (repo) => (hasTechDebtTracking(repo.index, repo.root) ? passResult("Tech debt tooling configured") : failResult("No tech debt tooling")),
 	},
 	{
 		id: "n-plus-one-query-detection",
 		category: "Style & Validation",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 5,
 		title: "N+1 Query Detection",
 		description: "Tooling detects N+1 query patterns.",
 		recommendation: "Add N+1 detection tooling (nplusone, bullet, django-silk).",
 		scope: "app",
 		checkApp: (app) =>
-			app.type !== "service"
-				? naResult("Not a service app")
+			!BACKEND_APP_TYPES.includes(app.type)
+				? naResult("Not a backend app")
 				: hasNPlusOneDetectionForApp(app)
 					? passResult("N+1 detection tooling configured")
 					: failResult("No N+1 detection tooling"),
@@ -805,18 +3335,21 @@ const buildCriteria = (): Criterion[] => [
 		id: "cyclomatic-complexity",
 		category: "Style & Validation",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 4,
 		title: "Cyclomatic Complexity",
 		description: "Lint rules enforce complexity thresholds.",
 		recommendation: "Enable cyclomatic complexity lint rules.",
 		scope: "repo",
-		checkRepo: (repo) => (hasCyclomaticComplexity(repo.root) ? passResult("Complexity rules configured") : failResult("No complexity rules")),
+		checkRepo: (repo) => {
+			const rule = hasCyclomaticComplexity(repo);
+			return rule ? passResult(`Complexity rules configured (${rule})`) : failResult("No complexity rules");
+		},
 	},
 	{
 		id: "duplicate-code-detection",
 		category: "Style & Validation",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 4,
 		title: "Duplicate Code Detection",
 		description: "Tooling detects duplicated code patterns.",
 		recommendation: "Add duplication detection tooling (jscpd, SonarQube).",
@@ -828,39 +3361,41 @@ const buildCriteria = (): Criterion[] => [
 		id: "code-modularization-enforcement",
 		category: "Style & Validation",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 4,
 		title: "Code Modularization Enforcement",
 		description: "Rules enforce module boundaries.",
 		recommendation: "Add module boundary tooling (boundaries/import rules/dependency-cruiser).",
 		scope: "app",
-		checkApp: (app) =>
-			hasModularizationEnforcementForApp(app) ? passResult("Boundary tooling configured") : failResult("No modularization tooling"),
+		checkApp: (app) => {
+			const rule = hasModularizationEnforcementForApp(app);
+			return rule ? passResult(`Boundary tooling configured (${rule})`) : failResult("No modularization tooling");
+		},
 	},
 	{
 		id: "linter-configuration",
 		category: "Style & Validation",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 1,
 		title: "Linter Configuration",
 		description: "Lint configuration exists.",
 		recommendation: "Add ESLint/Ruff or similar linting configuration.",
 		scope: "app",
-		checkApp: (app, repo) =>
-			hasLintConfig(app.path, app) || hasLintConfig(repo.root, app)
-				? passResult("Lint config found")
+		checkApp: (app) =>
+			hasLintConfig(app)
+				? passResult(app.lint?.length ? `Lint config found (${describeLintConfigs(app.lint)})` : "Lint script found")
 				: failResult("No lint config"),
 	},
 	{
 		id: "type-checker",
 		category: "Style & Validation",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 1,
 		title: "Type Checker",
 		description: "Type checking configuration exists.",
 		recommendation: "Add tsconfig, mypy, or pyright configuration.",
 		scope: "app",
 		checkApp: (app, repo) =>
-			hasTypeCheckConfig(app.path, app) || hasTypeCheckConfig(repo.root, app)
+			hasTypeCheckConfig(repo.index, app.path, app) || hasTypeCheckConfig(repo.index, repo.root, app)
 				? passResult("Type checking configured")
 				: failResult("No type checking config"),
 	},
@@ -868,55 +3403,63 @@ const buildCriteria = (): Criterion[] => [
 		id: "code-formatter",
 		category: "Style & Validation",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 1,
 		title: "Code Formatter",
 		description: "Formatter configuration exists.",
 		recommendation: "Add Prettier/formatter configuration.",
 		scope: "app",
 		checkApp: (app, repo) =>
-			hasCodeFormatter(repo.root, app) ? passResult("Formatter configured") : failResult("No formatter config"),
+			hasCodeFormatter(repo.index, repo.root, app) ? passResult("Formatter configured") : failResult("No formatter config"),
 	},
 	{
 		id: "pre-commit-hooks",
 		category: "Style & Validation",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 3,
 		title: "Pre-commit Hooks",
 		description: "Pre-commit hooks enforce checks locally.",
 		recommendation: "Add Husky/lint-staged or pre-commit hooks.",
 		scope: "app",
 		checkApp: (_app, repo) =>
-			hasPreCommitHooks(repo.root) ? passResult("Pre-commit hooks configured") : failResult("No pre-commit hooks"),
+			hasPreCommitHooks(repo.index, repo.root) ? passResult("Pre-commit hooks configured") : failResult("No pre-commit hooks"),
 	},
 	{
 		id: "strict-typing",
 		category: "Style & Validation",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 3,
 		title: "Strict Typing",
 		description: "Strict typing is enabled.",
 		recommendation: "Enable strict typing settings.",
 		scope: "app",
-		checkApp: (app, repo) =>
-			hasStrictTyping(repo.root, app) ? passResult("Strict typing enabled") : failResult("Strict typing not enabled"),
+		checkApp: (app, repo) => {
+			const profile = app.typescript;
+			if (profile?.strict) {
+				return passResult(`Strict typing enabled (${profile.chain.join(" → ")}: ${describeTypeScriptProfile(profile)})`);
+			}
+			if (hasStrictTyping(repo.index, app)) return passResult("Python type checker configured");
+			return failResult(
+				profile ? `Strict typing not enabled (${profile.config}: ${describeTypeScriptProfile(profile)})` : "Strict typing not enabled",
+			);
+		},
 	},
 	{
 		id: "large-file-detection",
 		category: "Style & Validation",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 3,
 		title: "Large File Detection",
 		description: "Large file detection tooling exists.",
 		recommendation: "Enable Git LFS or large file detection.",
 		scope: "repo",
-		checkRepo: (repo) => (hasLargeFileDetection(repo.root) ? passResult("Large file detection configured") : failResult("No large file detection")),
+		checkRepo: (repo) => (hasLargeFileDetection(repo.index, repo.root) ? passResult("Large file detection configured") : failResult("No large file detection")),
 	},
 	// Build System
 	{
 		id: "automated-pr-review-generation",
 		category: "Build System",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 3,
 		title: "Automated PR Review Generation",
 		description: "Automated PR review tooling is configured.",
 		recommendation: "Add automated PR review tooling (reviewdog, AI review).",
@@ -924,15 +3467,13 @@ const buildCriteria = (): Criterion[] => [
 		checkRepo: (repo) =>
 			repo.workflows.length === 0
 				? failResult("No workflows")
-				: hasAutomatedPrReview(repo.workflows)
-					? passResult("PR review automation configured")
-					: failResult("No PR review automation"),
+				: workflowResult(hasAutomatedPrReview(repo), "PR review automation configured", "No PR review automation"),
 	},
 	{
 		id: "deployment-frequency",
 		category: "Build System",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 4,
 		title: "Deployment Frequency",
 		description: "Deploy workflows exist for frequent releases.",
 		recommendation: "Add deployment workflows for frequent releases.",
@@ -940,15 +3481,13 @@ const buildCriteria = (): Criterion[] => [
 		checkRepo: (repo) =>
 			repo.workflows.length === 0
 				? naResult("No workflows")
-				: hasDeploymentFrequency(repo.workflows)
-					? passResult("Deployment workflows found")
-					: failResult("No deployment workflows"),
+				: workflowResult(hasDeploymentFrequency(repo), "Deployment workflows found", "No deployment workflows"),
 	},
 	{
 		id: "feature-flag-infrastructure",
 		category: "Build System",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 5,
 		title: "Feature Flag Infrastructure",
 		description: "Feature flag system is configured.",
 		recommendation: "Add feature flag tooling (LaunchDarkly, Unleash, ConfigCat).",
@@ -960,31 +3499,31 @@ const buildCriteria = (): Criterion[] => [
 		id: "monorepo-tooling",
 		category: "Build System",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 3,
 		title: "Monorepo Tooling",
 		description: "Monorepo tooling is configured.",
 		recommendation: "Add monorepo tooling (Nx, Turborepo, pnpm workspaces).",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasMonorepoTooling(repo.root, repo.apps) ? passResult("Monorepo tooling detected") : failResult("No monorepo tooling"),
+			hasMonorepoTooling(repo.index, repo.root, repo.apps) ? passResult("Monorepo tooling detected") : failResult("No monorepo tooling"),
 	},
 	{
 		id: "version-drift-detection",
 		category: "Build System",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 4,
 		title: "Version Drift Detection",
 		description: "Tooling detects dependency version drift.",
 		recommendation: "Add version drift detection (syncpack/changesets).",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasVersionDriftDetection(repo.root) ? passResult("Version drift tooling configured") : failResult("No version drift tooling"),
+			hasVersionDriftDetection(repo.index, repo.root) ? passResult("Version drift tooling configured") : failResult("No version drift tooling"),
 	},
 	{
 		id: "heavy-dependency-detection",
 		category: "Build System",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 4,
 		title: "Heavy Dependency Detection",
 		description: "Tooling detects heavy dependencies.",
 		recommendation: "Add bundle size monitoring (size-limit, bundlewatch).",
@@ -996,7 +3535,7 @@ const buildCriteria = (): Criterion[] => [
 		id: "build-command-documentation",
 		category: "Build System",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 2,
 		title: "Build Command Documentation",
 		description: "Build commands are documented.",
 		recommendation: "Document build commands in README.",
@@ -1008,43 +3547,43 @@ const buildCriteria = (): Criterion[] => [
 		id: "dependencies-pinned",
 		category: "Build System",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 1,
 		title: "Dependencies Pinned",
 		description: "Lockfiles are present.",
 		recommendation: "Add dependency lockfiles.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasDependenciesPinned(repo.root) ? passResult("Lockfiles present") : failResult("No lockfiles"),
+			hasDependenciesPinned(repo.index, repo.root) ? passResult("Lockfiles present") : failResult("No lockfiles"),
 	},
 	{
 		id: "vcs-cli-tools",
 		category: "Build System",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 2,
 		title: "VCS CLI Tools",
 		description: "VCS tooling is referenced in docs.",
 		recommendation: "Document VCS CLI tools usage.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasVcsCliTools(repo.root) ? passResult("VCS tooling referenced") : failResult("No VCS tooling references"),
+			hasVcsCliTools(repo.index, repo.root) ? passResult("VCS tooling referenced") : failResult("No VCS tooling references"),
 	},
 	{
 		id: "agentic-development",
 		category: "Build System",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 3,
 		title: "Agentic Development",
 		description: "Agentic development tooling is configured.",
 		recommendation: "Add AGENTS.md or agent configuration.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasAgenticDevelopment(repo.root) ? passResult("Agentic dev config found") : failResult("No agentic dev config"),
+			hasAgenticDevelopment(repo.index, repo.root) ? passResult("Agentic dev config found") : failResult("No agentic dev config"),
 	},
 	{
 		id: "single-command-setup",
 		category: "Build System",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 3,
 		title: "Single Command Setup",
 		description: "A single command sets up the repo.",
 		recommendation: "Add a setup/bootstrap script.",
@@ -1056,19 +3595,19 @@ const buildCriteria = (): Criterion[] => [
 		id: "release-notes-automation",
 		category: "Build System",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 4,
 		title: "Release Notes Automation",
 		description: "Release notes generation is automated.",
 		recommendation: "Add release notes automation (Changesets, Release Please).",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasReleaseNotesAutomation(repo.root) ? passResult("Release notes automation configured") : failResult("No release notes automation"),
+			hasReleaseNotesAutomation(repo.index, repo.root) ? passResult("Release notes automation configured") : failResult("No release notes automation"),
 	},
 	{
 		id: "unused-dependencies-detection",
 		category: "Build System",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 3,
 		title: "Unused Dependencies Detection",
 		description: "Tooling detects unused dependencies.",
 		recommendation: "Add unused dependency tooling (depcheck/knip).",
@@ -1082,19 +3621,19 @@ const buildCriteria = (): Criterion[] => [
 		id: "release-automation",
 		category: "Build System",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 3,
 		title: "Release Automation",
 		description: "Automated releases are configured.",
 		recommendation: "Add release automation (Changesets/semantic-release).",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasReleaseAutomation(repo.root) ? passResult("Release automation configured") : failResult("No release automation"),
+			hasReleaseAutomation(repo.index, repo.root) ? passResult("Release automation configured") : failResult("No release automation"),
 	},
 	{
 		id: "fast-ci-feedback",
 		category: "Build System",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 4,
 		title: "Fast CI Feedback",
 		description: "CI feedback is optimized for speed.",
 		recommendation: "Add caching/matrix/parallel CI workflows.",
@@ -1102,15 +3641,13 @@ const buildCriteria = (): Criterion[] => [
 		checkRepo: (repo) =>
 			repo.workflows.length === 0
 				? naResult("No workflows")
-				: hasFastCiFeedback(repo.workflows)
-					? passResult("Fast CI techniques detected")
-					: failResult("No fast CI optimization"),
+				: workflowResult(hasFastCiFeedback(repo), "Fast CI techniques detected", "No fast CI optimization"),
 	},
 	{
 		id: "build-performance-tracking",
 		category: "Build System",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 4,
 		title: "Build Performance Tracking",
 		description: "Build performance tracking is configured.",
 		recommendation: "Add build performance tracking in CI.",
@@ -1118,15 +3655,13 @@ const buildCriteria = (): Criterion[] => [
 		checkRepo: (repo) =>
 			repo.workflows.length === 0
 				? naResult("No workflows")
-				: hasBuildPerfTracking(repo.workflows)
-					? passResult("Build performance tracking detected")
-					: failResult("No build performance tracking"),
+				: workflowResult(hasBuildPerfTracking(repo), "Build performance tracking detected", "No build performance tracking"),
 	},
 	{
 		id: "progressive-rollout",
 		category: "Build System",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 5,
 		title: "Progressive Rollout",
 		description: "Progressive rollout mechanisms exist.",
 		recommendation: "Add progressive rollout tooling.",
@@ -1134,15 +3669,13 @@ const buildCriteria = (): Criterion[] => [
 		checkRepo: (repo) =>
 			repo.workflows.length === 0
 				? naResult("No workflows")
-				: hasProgressiveRollout(repo.workflows)
-					? passResult("Progressive rollout configured")
-					: failResult("No progressive rollout"),
+				: workflowResult(hasProgressiveRollout(repo), "Progressive rollout configured", "No progressive rollout"),
 	},
 	{
 		id: "rollback-automation",
 		category: "Build System",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 5,
 		title: "Rollback Automation",
 		description: "Automated rollback mechanisms exist.",
 		recommendation: "Add rollback automation tooling.",
@@ -1150,22 +3683,20 @@ const buildCriteria = (): Criterion[] => [
 		checkRepo: (repo) =>
 			repo.workflows.length === 0
 				? naResult("No workflows")
-				: hasRollbackAutomation(repo.workflows)
-					? passResult("Rollback automation detected")
-					: failResult("No rollback automation"),
+				: workflowResult(hasRollbackAutomation(repo), "Rollback automation detected", "No rollback automation"),
 	},
 	{
 		id: "dead-feature-flag-detection",
 		category: "Build System",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 5,
 		title: "Dead Feature Flag Detection",
 		description: "Tooling detects stale feature flags.",
 		recommendation: "Add dead feature flag detection.",
 		scope: "repo",
 		checkRepo: (repo) =>
 			hasAnyDependencyAcrossApps(repo.apps, ["launchdarkly", "unleash", "configcat", "growthbook", "flagsmith"])
-				? hasDeadFeatureFlagDetection(repo.apps)
+				? hasDeadFeatureFlagDetection(repo.index, repo.apps)
 					? passResult("Dead feature flag detection configured")
 					: failResult("No dead flag detection")
 				: naResult("No feature flag tooling"),
@@ -1175,7 +3706,7 @@ const buildCriteria = (): Criterion[] => [
 		id: "test-performance-tracking",
 		category: "Testing",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 4,
 		title: "Test Performance Tracking",
 		description: "Test performance is tracked.",
 		recommendation: "Add test performance tracking tooling.",
@@ -1187,43 +3718,64 @@ const buildCriteria = (): Criterion[] => [
 		id: "test-coverage-thresholds",
 		category: "Testing",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 3,
 		title: "Test Coverage Thresholds",
 		description: "Coverage thresholds are configured.",
 		recommendation: "Add coverage thresholds in test config.",
 		scope: "app",
-		checkApp: (_app, repo) =>
-			hasTestCoverageThresholds(repo.root) ? passResult("Coverage thresholds configured") : failResult("No coverage thresholds"),
+		checkApp: (app, repo) => {
+			const file = findCoverageThresholds(repo.index, Array.from(new Set([app.path, repo.root])));
+			return file
+				? passResult(`Coverage thresholds configured (${toPosixPath(path.relative(repo.root, file))})`)
+				: failResult("No coverage thresholds");
+		},
+	},
+	{
+		id: "test-coverage-measured",
+		category: "Testing",
+		tier: "INTERMEDIATE",
+		level: 3,
+		title: "Measured Test Coverage",
+		description: "Coverage reports show line coverage at or above the threshold.",
+		recommendation: "Generate coverage reports (lcov, Cobertura, Istanbul summary, Go cover profile or coverage.py XML) and raise line coverage.",
+		scope: "app",
+		checkApp: (app, repo) => {
+			// Coverage output is usually gitignored, so a fresh checkout has nothing to measure.
+			if (!app.coverage) return naResult("No coverage report found");
+			return app.coverage.lines.percentage >= repo.coverageThreshold
+				? passResult(`Coverage ${describeCoverage(app.coverage)} meets the ${repo.coverageThreshold}% threshold`)
+				: failResult(`Coverage ${describeCoverage(app.coverage)} is below the ${repo.coverageThreshold}% threshold`);
+		},
 	},
 	{
 		id: "test-isolation",
 		category: "Testing",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 5,
 		title: "Test Isolation",
 		description: "Tests are isolated from external systems.",
 		recommendation: "Add test isolation tooling (testcontainers, mocks).",
 		scope: "app",
-		checkApp: (app) =>
-			hasTestIsolation([app]) ? passResult("Test isolation tooling detected") : failResult("No test isolation tooling"),
+		checkApp: (app, repo) =>
+			hasTestIsolation(repo.index, [app]) ? passResult("Test isolation tooling detected") : failResult("No test isolation tooling"),
 	},
 	{
 		id: "integration-tests-exist",
 		category: "Testing",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 3,
 		title: "Integration Tests Exist",
 		description: "Integration tests exist.",
 		recommendation: "Add integration tests.",
 		scope: "app",
 		checkApp: (app, repo) =>
-			hasIntegrationTests(repo.root, app) ? passResult("Integration tests detected") : failResult("No integration tests"),
+			hasIntegrationTests(repo.index, repo.root, app) ? passResult("Integration tests detected") : failResult("No integration tests"),
 	},
 	{
 		id: "flaky-test-detection",
 		category: "Testing",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 4,
 		title: "Flaky Test Detection",
 		description: "Tooling detects flaky tests.",
 		recommendation: "Add flaky test detection tooling.",
@@ -1235,18 +3787,18 @@ const buildCriteria = (): Criterion[] => [
 		id: "unit-tests-exist",
 		category: "Testing",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 1,
 		title: "Unit Tests Exist",
 		description: "Unit tests exist.",
 		recommendation: "Add unit tests.",
 		scope: "app",
-		checkApp: (app) => (hasTestFiles(app.path) ? passResult("Unit test files found") : failResult("No unit tests")),
+		checkApp: (app, repo) => (hasTestFiles(repo.index, app.path) ? passResult("Unit test files found") : failResult("No unit tests")),
 	},
 	{
 		id: "unit-tests-runnable",
 		category: "Testing",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 1,
 		title: "Unit Tests Runnable",
 		description: "Unit tests are runnable via script.",
 		recommendation: "Add a test script.",
@@ -1258,39 +3810,39 @@ const buildCriteria = (): Criterion[] => [
 		id: "test-file-naming-conventions",
 		category: "Testing",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 3,
 		title: "Test File Naming Conventions",
 		description: "Test files use consistent naming conventions.",
 		recommendation: "Standardize test file naming (test/spec).",
 		scope: "app",
-		checkApp: (app) =>
-			hasTestFileNaming(app.path) ? passResult("Test file naming conventions detected") : failResult("No test naming convention"),
+		checkApp: (app, repo) =>
+			hasTestFileNaming(repo.index, app.path) ? passResult("Test file naming conventions detected") : failResult("No test naming convention"),
 	},
 	// Documentation
 	{
 		id: "skills-configuration",
 		category: "Documentation",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 3,
 		title: "Skills Configuration",
 		description: "Skills are configured for agents.",
 		recommendation: "Add skills configuration under .pi/skills or .claude/skills.",
 		scope: "repo",
-		checkRepo: (repo) => (hasSkillsConfig(repo.root) ? passResult("Skills configuration found") : failResult("No skills configuration")),
+		checkRepo: (repo) => (hasSkillsConfig(repo.index, repo.root) ? passResult("Skills configuration found") : failResult("No skills configuration")),
 	},
 	{
 		id: "api-schema-docs",
 		category: "Documentation",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 2,
 		title: "API Schema Docs",
 		description: "API schemas are documented.",
 		recommendation: "Add OpenAPI/GraphQL schema documentation.",
 		scope: "app",
 		checkApp: (app, repo) =>
-			app.type !== "service"
-				? naResult("Not a service app")
-				: hasAnyFileInPaths([repo.root, app.path], ["openapi.yaml", "openapi.yml", "swagger.json", "schema.graphql", "api.md"])
+			!API_APP_TYPES.includes(app.type)
+				? naResult("Not an API app")
+				: hasAnyFileInPaths(repo.index, [repo.root, app.path], ["openapi.yaml", "openapi.yml", "swagger.json", "schema.graphql", "api.md"])
 					? passResult("API schema docs found")
 					: failResult("No API schema docs"),
 	},
@@ -1298,103 +3850,101 @@ const buildCriteria = (): Criterion[] => [
 		id: "agents-md-freshness-validation",
 		category: "Documentation",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 5,
 		title: "AGENTS.md Freshness Validation",
 		description: "AGENTS.md freshness is validated in CI.",
 		recommendation: "Add CI check for AGENTS.md freshness.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			fileExists(path.join(repo.root, "AGENTS.md"))
-				? hasAgentsFreshnessValidation(repo.workflows)
-					? passResult("AGENTS.md validation configured")
-					: failResult("No AGENTS.md validation")
+			isIndexedFile(repo.index, path.join(repo.root, "AGENTS.md"))
+				? workflowResult(hasAgentsFreshnessValidation(repo), "AGENTS.md validation configured", "No AGENTS.md validation")
 				: naResult("AGENTS.md missing"),
 	},
 	{
 		id: "agents-md-file",
 		category: "Documentation",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 2,
 		title: "AGENTS.md File",
 		description: "AGENTS.md exists.",
 		recommendation: "Add AGENTS.md documentation.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			fileExists(path.join(repo.root, "AGENTS.md")) ? passResult("AGENTS.md found") : failResult("AGENTS.md missing"),
+			isIndexedFile(repo.index, path.join(repo.root, "AGENTS.md")) ? passResult("AGENTS.md found") : failResult("AGENTS.md missing"),
 	},
 	{
 		id: "readme-file",
 		category: "Documentation",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 1,
 		title: "README File",
 		description: "README exists.",
 		recommendation: "Add a README.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			fileExists(path.join(repo.root, "README.md")) ? passResult("README found") : failResult("README missing"),
+			isIndexedFile(repo.index, path.join(repo.root, "README.md")) ? passResult("README found") : failResult("README missing"),
 	},
 	{
 		id: "automated-documentation-generation",
 		category: "Documentation",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 3,
 		title: "Automated Documentation Generation",
 		description: "Documentation generation is automated.",
 		recommendation: "Add automated docs generation tooling.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasAutoDocsGeneration(repo.apps) ? passResult("Automated docs tooling detected") : failResult("No auto docs tooling"),
+			hasAutoDocsGeneration(repo.index, repo.apps) ? passResult("Automated docs tooling detected") : failResult("No auto docs tooling"),
 	},
 	{
 		id: "documentation-freshness",
 		category: "Documentation",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 4,
 		title: "Documentation Freshness",
 		description: "Docs are kept up to date.",
 		recommendation: "Update docs regularly.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasDocumentationFreshness(repo.root) ? passResult("Docs updated recently") : failResult("Docs appear stale"),
+			hasDocumentationFreshness(repo.index, repo.root) ? passResult("Docs updated recently") : failResult("Docs appear stale"),
 	},
 	{
 		id: "service-architecture-documented",
 		category: "Documentation",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 2,
 		title: "Service Architecture Documented",
 		description: "Architecture is documented.",
 		recommendation: "Document service architecture.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasServiceArchitectureDoc(repo.root) ? passResult("Architecture docs found") : failResult("No architecture docs"),
+			hasServiceArchitectureDoc(repo.index, repo.root) ? passResult("Architecture docs found") : failResult("No architecture docs"),
 	},
 	// Development Environment
 	{
 		id: "dev-container",
 		category: "Development Environment",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 2,
 		title: "Dev Container",
 		description: "Dev container configuration exists.",
 		recommendation: "Add a devcontainer configuration.",
 		scope: "repo",
-		checkRepo: (repo) => (hasDevContainer(repo.root) ? passResult("Devcontainer config found") : failResult("No devcontainer")),
+		checkRepo: (repo) => (hasDevContainer(repo.index, repo.root) ? passResult("Devcontainer config found") : failResult("No devcontainer")),
 	},
 	{
 		id: "database-schema",
 		category: "Development Environment",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 2,
 		title: "Database Schema",
 		description: "Database schema is defined.",
 		recommendation: "Add database schema/migrations.",
 		scope: "app",
 		checkApp: (app, repo) =>
-			app.type !== "service"
-				? naResult("Not a service app")
-				: hasAnyFileInPaths([repo.root, app.path], ["schema.prisma", "schema.sql", "dbschema.json", "migrations"])
+			!BACKEND_APP_TYPES.includes(app.type)
+				? naResult("Not a backend app")
+				: hasAnyFileInPaths(repo.index, [repo.root, app.path], ["schema.prisma", "schema.sql", "dbschema.json", "migrations"])
 					? passResult("Database schema found")
 					: failResult("No database schema"),
 	},
@@ -1402,36 +3952,36 @@ const buildCriteria = (): Criterion[] => [
 		id: "environment-template",
 		category: "Development Environment",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 2,
 		title: "Environment Template",
 		description: "Environment template exists.",
 		recommendation: "Add .env.example or environment template.",
 		scope: "repo",
-		checkRepo: (repo) => (hasEnvTemplate(repo.root) ? passResult("Env template found") : failResult("No env template")),
+		checkRepo: (repo) => (hasEnvTemplate(repo.index, repo.root) ? passResult("Env template found") : failResult("No env template")),
 	},
 	{
 		id: "local-services-setup",
 		category: "Development Environment",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 2,
 		title: "Local Services Setup",
 		description: "Local services setup exists.",
 		recommendation: "Add docker-compose or local services setup.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasLocalServicesSetup(repo.root) ? passResult("Local services setup found") : failResult("No local services setup"),
+			hasLocalServicesSetup(repo.index, repo.root) ? passResult("Local services setup found") : failResult("No local services setup"),
 	},
 	{
 		id: "devcontainer-runnable",
 		category: "Development Environment",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 3,
 		title: "Devcontainer Runnable",
 		description: "Devcontainer is runnable.",
 		recommendation: "Ensure devcontainer builds successfully.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			!hasDevContainer(repo.root)
+			!hasDevContainer(repo.index, repo.root)
 				? naResult("No devcontainer")
 				: passResult("Devcontainer config present"),
 	},
@@ -1440,14 +3990,14 @@ const buildCriteria = (): Criterion[] => [
 		id: "structured-logging",
 		category: "Debugging & Observability",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 3,
 		title: "Structured Logging",
 		description: "Structured logging libraries are used.",
 		recommendation: "Add structured logging (pino, winston, etc.).",
 		scope: "app",
 		checkApp: (app) =>
-			app.type !== "service"
-				? naResult("Not a service app")
+			!BACKEND_APP_TYPES.includes(app.type)
+				? naResult("Not a backend app")
 				: hasStructuredLoggingForApp(app)
 					? passResult("Structured logging detected")
 					: failResult("No structured logging"),
@@ -1456,14 +4006,14 @@ const buildCriteria = (): Criterion[] => [
 		id: "distributed-tracing",
 		category: "Debugging & Observability",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 4,
 		title: "Distributed Tracing",
 		description: "Distributed tracing is configured.",
 		recommendation: "Add tracing instrumentation (OpenTelemetry, Datadog).",
 		scope: "app",
 		checkApp: (app) =>
-			app.type !== "service"
-				? naResult("Not a service app")
+			!BACKEND_APP_TYPES.includes(app.type)
+				? naResult("Not a backend app")
 				: hasDistributedTracingForApp(app)
 					? passResult("Tracing instrumentation detected")
 					: failResult("No tracing instrumentation"),
@@ -1472,26 +4022,26 @@ const buildCriteria = (): Criterion[] => [
 		id: "code-quality-metrics-dashboard",
 		category: "Debugging & Observability",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 5,
 		title: "Code Quality Metrics Dashboard",
 		description: "Code quality metrics dashboard exists.",
 		recommendation: "Add SonarQube/Code Climate dashboard.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasCodeQualityDashboard(repo.root) ? passResult("Code quality dashboard configured") : failResult("No code quality dashboard"),
+			hasCodeQualityDashboard(repo.index, repo.root) ? passResult("Code quality dashboard configured") : failResult("No code quality dashboard"),
 	},
 	{
 		id: "error-tracking-contextualized",
 		category: "Debugging & Observability",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 3,
 		title: "Error Tracking Contextualized",
 		description: "Error tracking is configured.",
 		recommendation: "Add error tracking (Sentry, Bugsnag).",
 		scope: "app",
 		checkApp: (app) =>
-			app.type === "library"
-				? naResult("Library app")
+			NON_RUNTIME_APP_TYPES.includes(app.type)
+				? naResult(`Not a runtime app (${app.type})`)
 				: hasErrorTrackingForApp(app)
 					? passResult("Error tracking configured")
 					: failResult("No error tracking"),
@@ -1500,38 +4050,38 @@ const buildCriteria = (): Criterion[] => [
 		id: "alerting-configured",
 		category: "Debugging & Observability",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 4,
 		title: "Alerting Configured",
 		description: "Alerting is configured.",
 		recommendation: "Add alerting configuration.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasAlertingConfigured(repo.root) ? passResult("Alerting configured") : failResult("No alerting config"),
+			hasAlertingConfigured(repo.index, repo.root) ? passResult("Alerting configured") : failResult("No alerting config"),
 	},
 	{
 		id: "runbooks-documented",
 		category: "Debugging & Observability",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 2,
 		title: "Runbooks Documented",
 		description: "Runbooks are documented.",
 		recommendation: "Add runbooks for incidents.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasRunbooks(repo.root) ? passResult("Runbooks documented") : failResult("No runbooks"),
+			hasRunbooks(repo.index, repo.root) ? passResult("Runbooks documented") : failResult("No runbooks"),
 	},
 	{
 		id: "metrics-collection",
 		category: "Debugging & Observability",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 4,
 		title: "Metrics Collection",
 		description: "Metrics collection is configured.",
 		recommendation: "Add metrics collection (Prometheus, OpenTelemetry).",
 		scope: "app",
 		checkApp: (app) =>
-			app.type !== "service"
-				? naResult("Not a service app")
+			!BACKEND_APP_TYPES.includes(app.type)
+				? naResult("Not a backend app")
 				: hasMetricsCollectionForApp(app)
 					? passResult("Metrics collection configured")
 					: failResult("No metrics collection"),
@@ -1540,7 +4090,7 @@ const buildCriteria = (): Criterion[] => [
 		id: "deployment-observability",
 		category: "Debugging & Observability",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 5,
 		title: "Deployment Observability",
 		description: "Deployments emit observability signals.",
 		recommendation: "Integrate deployments with observability tools.",
@@ -1548,23 +4098,21 @@ const buildCriteria = (): Criterion[] => [
 		checkRepo: (repo) =>
 			repo.workflows.length === 0
 				? naResult("No workflows")
-				: hasDeploymentObservability(repo.workflows)
-					? passResult("Deployment observability configured")
-					: failResult("No deployment observability"),
+				: workflowResult(hasDeploymentObservability(repo), "Deployment observability configured", "No deployment observability"),
 	},
 	{
 		id: "health-checks",
 		category: "Debugging & Observability",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 4,
 		title: "Health Checks",
 		description: "Health checks are implemented.",
 		recommendation: "Add health check endpoints.",
 		scope: "app",
-		checkApp: (app) =>
-			app.type !== "service"
-				? naResult("Not a service app")
-				: hasMatchingFile(app.path, /(health|status).*\.(js|ts|py|go|rb)/i)
+		checkApp: (app, repo) =>
+			!LONG_RUNNING_APP_TYPES.includes(app.type)
+				? naResult("Not a long-running app")
+				: hasMatchingFile(repo.index, app.path, /(health|status).*\.(js|ts|py|go|rb)/i)
 					? passResult("Health checks detected")
 					: failResult("No health checks"),
 	},
@@ -1572,14 +4120,14 @@ const buildCriteria = (): Criterion[] => [
 		id: "circuit-breakers",
 		category: "Debugging & Observability",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 5,
 		title: "Circuit Breakers",
 		description: "Circuit breaker patterns are implemented.",
 		recommendation: "Add circuit breaker tooling.",
 		scope: "app",
 		checkApp: (app) =>
-			app.type !== "service"
-				? naResult("Not a service app")
+			!BACKEND_APP_TYPES.includes(app.type)
+				? naResult("Not a backend app")
 				: hasCircuitBreakersForApp(app)
 					? passResult("Circuit breaker tooling detected")
 					: failResult("No circuit breaker tooling"),
@@ -1588,14 +4136,14 @@ const buildCriteria = (): Criterion[] => [
 		id: "profiling-instrumentation",
 		category: "Debugging & Observability",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 5,
 		title: "Profiling Instrumentation",
 		description: "Profiling instrumentation exists.",
 		recommendation: "Add profiling tooling (clinic, pprof, py-spy).",
 		scope: "app",
 		checkApp: (app) =>
-			app.type !== "service"
-				? naResult("Not a service app")
+			!BACKEND_APP_TYPES.includes(app.type)
+				? naResult("Not a backend app")
 				: hasProfilingInstrumentationForApp(app)
 					? passResult("Profiling tooling detected")
 					: failResult("No profiling tooling"),
@@ -1605,43 +4153,43 @@ const buildCriteria = (): Criterion[] => [
 		id: "branch-protection",
 		category: "Security",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 2,
 		title: "Branch Protection",
 		description: "Branch protection is configured.",
 		recommendation: "Configure branch protection rules.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasBranchProtection(repo.root) ? passResult("Branch protection configured") : failResult("No branch protection"),
+			hasBranchProtection(repo.index, repo.root) ? passResult("Branch protection configured") : failResult("No branch protection"),
 	},
 	{
 		id: "secret-scanning",
 		category: "Security",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 3,
 		title: "Secret Scanning",
 		description: "Secret scanning tooling exists.",
 		recommendation: "Add secret scanning (gitleaks, trivy).",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasSecretScanning(repo.root) ? passResult("Secret scanning configured") : failResult("No secret scanning"),
+			hasSecretScanning(repo.index, repo.root) ? passResult("Secret scanning configured") : failResult("No secret scanning"),
 	},
 	{
 		id: "codeowners-file",
 		category: "Security",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 2,
 		title: "CODEOWNERS File",
 		description: "CODEOWNERS file exists.",
 		recommendation: "Add CODEOWNERS.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasCodeowners(repo.root) ? passResult("CODEOWNERS found") : failResult("CODEOWNERS missing"),
+			hasCodeowners(repo.index, repo.root) ? passResult("CODEOWNERS found") : failResult("CODEOWNERS missing"),
 	},
 	{
 		id: "automated-security-review-generation",
 		category: "Security",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 3,
 		title: "Automated Security Review Generation",
 		description: "Security reviews are automated in CI.",
 		recommendation: "Add CodeQL or security review workflows.",
@@ -1649,34 +4197,32 @@ const buildCriteria = (): Criterion[] => [
 		checkRepo: (repo) =>
 			repo.workflows.length === 0
 				? failResult("No workflows")
-				: hasAutomatedSecurityReview(repo.workflows)
-					? passResult("Security review automation configured")
-					: failResult("No security review automation"),
+				: workflowResult(hasAutomatedSecurityReview(repo), "Security review automation configured", "No security review automation"),
 	},
 	{
 		id: "dependency-update-automation",
 		category: "Security",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 3,
 		title: "Dependency Update Automation",
 		description: "Dependency update automation is configured.",
 		recommendation: "Enable Dependabot or Renovate.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasDependencyAutomation(repo.root) ? passResult("Dependency automation configured") : failResult("No dependency automation"),
+			hasDependencyAutomation(repo.index, repo.root) ? passResult("Dependency automation configured") : failResult("No dependency automation"),
 	},
 	{
 		id: "sensitive-data-log-scrubbing",
 		category: "Security",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 4,
 		title: "Sensitive Data Log Scrubbing",
 		description: "Sensitive data is scrubbed from logs.",
 		recommendation: "Add log scrubbing or redaction tooling.",
 		scope: "app",
 		checkApp: (app) =>
-			app.type !== "service"
-				? naResult("Not a service app")
+			!BACKEND_APP_TYPES.includes(app.type)
+				? naResult("Not a backend app")
 				: hasSensitiveDataScrubbingForApp(app)
 					? passResult("Log scrubbing configured")
 					: failResult("No log scrubbing"),
@@ -1685,19 +4231,19 @@ const buildCriteria = (): Criterion[] => [
 		id: "gitignore-comprehensive",
 		category: "Security",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 1,
 		title: "Gitignore Comprehensive",
 		description: "Gitignore file exists.",
 		recommendation: "Add .gitignore.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasGitignoreComprehensive(repo.root) ? passResult(".gitignore found") : failResult("No .gitignore"),
+			hasGitignoreComprehensive(repo.index, repo.root) ? passResult(".gitignore found") : failResult("No .gitignore"),
 	},
 	{
 		id: "secrets-management",
 		category: "Security",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 3,
 		title: "Secrets Management",
 		description: "Secrets management tooling exists.",
 		recommendation: "Add secrets management tooling (Vault, AWS Secrets Manager).",
@@ -1709,7 +4255,7 @@ const buildCriteria = (): Criterion[] => [
 		id: "dast-scanning",
 		category: "Security",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 5,
 		title: "DAST Scanning",
 		description: "DAST scanning is configured.",
 		recommendation: "Add DAST scanning in CI.",
@@ -1717,76 +4263,74 @@ const buildCriteria = (): Criterion[] => [
 		checkRepo: (repo) =>
 			repo.workflows.length === 0
 				? naResult("No workflows")
-				: hasDastScanning(repo.workflows)
-					? passResult("DAST scanning configured")
-					: failResult("No DAST scanning"),
+				: workflowResult(hasDastScanning(repo), "DAST scanning configured", "No DAST scanning"),
 	},
 	{
 		id: "pii-handling",
 		category: "Security",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 4,
 		title: "PII Handling",
 		description: "PII handling guidelines exist.",
 		recommendation: "Add PII handling documentation.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasPiiHandling(repo.root) ? passResult("PII handling docs found") : naResult("No PII handling docs"),
+			hasPiiHandling(repo.index, repo.root) ? passResult("PII handling docs found") : naResult("No PII handling docs"),
 	},
 	{
 		id: "privacy-compliance",
 		category: "Security",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 5,
 		title: "Privacy Compliance",
 		description: "Privacy compliance documentation exists.",
 		recommendation: "Add privacy compliance documentation.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasPrivacyCompliance(repo.root) ? passResult("Privacy compliance docs found") : naResult("No privacy compliance docs"),
+			hasPrivacyCompliance(repo.index, repo.root) ? passResult("Privacy compliance docs found") : naResult("No privacy compliance docs"),
 	},
 	// Task Discovery
 	{
 		id: "issue-templates",
 		category: "Task Discovery",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 2,
 		title: "Issue Templates",
 		description: "Issue templates exist.",
 		recommendation: "Add issue templates.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasIssueTemplates(repo.root) ? passResult("Issue templates found") : failResult("No issue templates"),
+			hasIssueTemplates(repo.index, repo.root) ? passResult("Issue templates found") : failResult("No issue templates"),
 	},
 	{
 		id: "issue-labeling-system",
 		category: "Task Discovery",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 2,
 		title: "Issue Labeling System",
 		description: "Issue labeling system exists.",
 		recommendation: "Add issue labels configuration.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasIssueLabelingSystem(repo.root) ? passResult("Issue labels configured") : failResult("No issue labels"),
+			hasIssueLabelingSystem(repo.index, repo.root) ? passResult("Issue labels configured") : failResult("No issue labels"),
 	},
 	{
 		id: "pr-templates",
 		category: "Task Discovery",
 		tier: "BASIC",
-		level: tierToLevel.BASIC,
+		level: 2,
 		title: "PR Templates",
 		description: "Pull request templates exist.",
 		recommendation: "Add PR templates.",
 		scope: "repo",
 		checkRepo: (repo) =>
-			hasPrTemplates(repo.root) ? passResult("PR templates found") : failResult("No PR templates"),
+			hasPrTemplates(repo.index, repo.root) ? passResult("PR templates found") : failResult("No PR templates"),
 	},
 	{
 		id: "backlog-health",
 		category: "Task Discovery",
 		tier: "ADVANCED",
-		level: tierToLevel.ADVANCED,
+		level: 5,
 		title: "Backlog Health",
 		description: "Backlog health is monitored.",
 		recommendation: "Add backlog health tracking.",
@@ -1798,20 +4342,343 @@ const buildCriteria = (): Criterion[] => [
 		id: "product-analytics-instrumentation",
 		category: "Product & Experimentation",
 		tier: "INTERMEDIATE",
-		level: tierToLevel.INTERMEDIATE,
+		level: 4,
 		title: "Product Analytics Instrumentation",
 		description: "Product analytics tooling is configured.",
 		recommendation: "Add product analytics instrumentation (Segment, Amplitude, PostHog).",
 		scope: "app",
 		checkApp: (app) =>
-			app.type === "library"
-				? naResult("Library app")
+			NON_RUNTIME_APP_TYPES.includes(app.type)
+				? naResult(`Not a runtime app (${app.type})`)
 				: hasProductAnalyticsForApp(app)
 					? passResult("Product analytics configured")
 					: failResult("No product analytics"),
 	},
 ];
 
+const CUSTOM_CRITERIA_FILES = [
+	path.join(".pi", "readiness-criteria.yaml"),
+	path.join(".pi", "readiness-criteria.yml"),
+	path.join(".pi", "readiness-criteria.json"),
+];
+
+// pi exposes its YAML parser through parseFrontmatter, which stops at the first `---` line. A leading marker is
+// stripped and a trailing one ignored, but a second document would be silently dropped, so it is rejected.
+const parseYaml = (text: string) => {
+	const body = text.replace(/^\uFEFF?---[^\n]*\n/, "");
+	const separator = body.match(/^(?:---|\.\.\.)(?:[ \t].*)?$/m);
+	const rest = separator ? body.slice((separator.index ?? 0) + separator[0].length) : "";
+	if (rest.replace(/^\s*#.*$/gm, "").trim()) throw new Error("multi-document YAML is not supported");
+	return parseFrontmatter(`---\n${separator ? body.slice(0, separator.index) : body}\n---`).frontmatter;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const globToRegExp = (glob: string) => {
+	let pattern = "";
+	for (let index = 0; index < glob.length; index++) {
+		const char = glob[index];
+		if (char === "*") {
+			if (glob[index + 1] === "*") {
+				index++;
+				if (glob[index + 1] === "/") {
+					index++;
+					pattern += "(?:.*/)?";
+				} else {
+					pattern += ".*";
+				}
+			} else {
+				pattern += "[^/]*";
+			}
+		} else if (char === "?") {
+			pattern += "[^/]";
+		} else if (char === "[" && glob.indexOf("]", index + 2) > index) {
+			const end = glob.indexOf("]", index + 2);
+			const body = glob.slice(index + 1, end).replace(/\\/g, "\\\\");
+			pattern += `[${body.startsWith("!") ? `^${body.slice(1)}` : body}]`;
+			index = end;
+		} else if (char === "{" && glob.indexOf("}", index) > index) {
+			const end = glob.indexOf("}", index);
+			pattern += `(?:${glob.slice(index + 1, end).split(",").map(escapeRegExp).join("|")})`;
+			index = end;
+		} else {
+			pattern += escapeRegExp(char);
+		}
+	}
+	return new RegExp(`^${pattern}$`);
+};
+
+const toPosixPath = (value: string) => value.split(path.sep).join("/");
+
+const toList = (value: string | string[]) => (Array.isArray(value) ? value : [value]);
+
+const validateCondition = (condition: unknown, label: string): string[] => {
+	if (!isRecord(condition)) return [`${label} must be an object`];
+	const keys = Object.keys(condition);
+	if (keys.length !== 1) return [`${label} must have exactly one of file, glob, dependency, workflow, script, all, any, not`];
+	const [key] = keys;
+	const value = condition[key];
+	const isStringList = (item: unknown) =>
+		typeof item === "string" || (Array.isArray(item) && item.length > 0 && item.every((entry) => typeof entry === "string"));
+	switch (key) {
+		case "file":
+		case "dependency":
+		case "script":
+			return isStringList(value) ? [] : [`${label}.${key} must be a string or a list of strings`];
+		case "glob":
+			return typeof value === "string" ? [] : [`${label}.glob must be a string`];
+		case "workflow":
+			if (typeof value !== "string") return [`${label}.workflow must be a regular expression string`];
+			try {
+				new RegExp(value, "i");
+				return [];
+			} catch {
+				return [`${label}.workflow is not a valid regular expression`];
+			}
+		case "all":
+		case "any":
+			return Array.isArray(value) && value.length > 0
+				? value.flatMap((item, index) => validateCondition(item, `${label}.${key}[${index}]`))
+				: [`${label}.${key} must be a non-empty list of conditions`];
+		case "not":
+			return validateCondition(value, `${label}.not`);
+		default:
+			return [`${label}: unknown condition "${key}"`];
+	}
+};
+
+const validateCustomCriterion = (definition: unknown, label: string): string[] => {
+	if (!isRecord(definition)) return [`${label} must be an object`];
+	const errors: string[] = [];
+	for (const key of ["id", "category", "title", "recommendation"]) {
+		if (typeof definition[key] !== "string" || !definition[key]) {
+			errors.push(`${label}.${key} must be a non-empty string`);
+		}
+	}
+	if (definition.description !== undefined && typeof definition.description !== "string") {
+		errors.push(`${label}.description must be a string`);
+	}
+	if (!LEVELS.includes(definition.level as CriterionLevel)) {
+		errors.push(`${label}.level must be 1-5`);
+	}
+	if (definition.tier !== undefined && !["BASIC", "INTERMEDIATE", "ADVANCED"].includes(definition.tier as string)) {
+		errors.push(`${label}.tier must be BASIC, INTERMEDIATE or ADVANCED`);
+	}
+	if (definition.scope !== "repo" && definition.scope !== "app") {
+		errors.push(`${label}.scope must be repo or app`);
+	}
+	if (
+		definition.appTypes !== undefined &&
+		!(Array.isArray(definition.appTypes) && definition.appTypes.every((item) => typeof item === "string"))
+	) {
+		errors.push(`${label}.appTypes must be a list of strings`);
+	}
+	errors.push(...validateCondition(definition.check, `${label}.check`));
+	return errors;
+};
+
+const evaluateCondition = (condition: CustomCondition, repo: RepoContext, app?: AppInfo): { ok: boolean; details: string } => {
+	const base = app?.path ?? repo.root;
+	const apps = app ? [app] : repo.apps;
+	if ("all" in condition) {
+		const results = condition.all.map((item) => evaluateCondition(item, repo, app));
+		return results.find((result) => !result.ok) ?? { ok: true, details: results.map((result) => result.details).join("; ") };
+	}
+	if ("any" in condition) {
+		const results = condition.any.map((item) => evaluateCondition(item, repo, app));
+		return results.find((result) => result.ok) ?? { ok: false, details: results.map((result) => result.details).join("; ") };
+	}
+	if ("not" in condition) {
+		const result = evaluateCondition(condition.not, repo, app);
+		return { ok: !result.ok, details: `not (${result.details})` };
+	}
+	if ("file" in condition) {
+		const names = toList(condition.file);
+		const found = names.find((name) => isIndexedPath(repo.index, path.join(base, name)));
+		return found ? { ok: true, details: `${found} exists` } : { ok: false, details: `Missing ${names.join(", ")}` };
+	}
+	if ("glob" in condition) {
+		const matcher = globToRegExp(condition.glob);
+		const match = indexFilesUnder(repo.index, base)
+			.map((file) => toPosixPath(path.relative(base, file)))
+			.find((file) => matcher.test(file));
+		return match
+			? { ok: true, details: `${match} matches ${condition.glob}` }
+			: { ok: false, details: `No files match ${condition.glob}` };
+	}
+	if ("dependency" in condition) {
+		const names = toList(condition.dependency);
+		return apps.some((item) => hasAnyDependency(item, names))
+			? { ok: true, details: `Dependency ${names.join("/")} present` }
+			: { ok: false, details: `No dependency ${names.join("/")}` };
+	}
+	if ("workflow" in condition) {
+		return hasWorkflowMatch(repo, new RegExp(condition.workflow, "i"))
+			? { ok: true, details: `Workflow matches /${condition.workflow}/` }
+			: { ok: false, details: `No workflow matches /${condition.workflow}/` };
+	}
+	const names = toList(condition.script);
+	const withScript = apps.find((item) => names.some((name) => (item.scripts ?? {})[name]));
+	return withScript
+		? { ok: true, details: `Script ${names.join("/")} defined` }
+		: { ok: false, details: `No ${names.join("/")} script` };
+};
+
+const defaultTierForLevel = (level: CriterionLevel): CriterionTier =>
+	level <= 2 ? "BASIC" : level === 3 ? "INTERMEDIATE" : "ADVANCED";
+
+const toCustomCriterion = (definition: CustomCriterionDefinition, source: string): Criterion => {
+	const check = (repo: RepoContext, app?: AppInfo) => {
+		const result = evaluateCondition(definition.check, repo, app);
+		return result.ok ? passResult(result.details) : failResult(result.details);
+	};
+	return {
+		id: definition.id,
+		category: definition.category,
+		tier: definition.tier ?? defaultTierForLevel(definition.level),
+		level: definition.level,
+		title: definition.title,
+		description: definition.description ?? definition.title,
+		recommendation: definition.recommendation,
+		scope: definition.scope,
+		customSource: source,
+		checkRepo: definition.scope === "repo" ? (repo) => check(repo) : undefined,
+		checkApp:
+			definition.scope === "app"
+				? (app, repo) =>
+						definition.appTypes && !definition.appTypes.includes(app.type)
+							? naResult(`Not a ${definition.appTypes.join("/")} app`)
+							: check(repo, app)
+				: undefined,
+	};
+};
+
+const loadCustomCriteria = (repoRoot: string, loaded: ReturnType<typeof loadReadinessConfig>, builtIn: Criterion[]) => {
+	const entries: { definition: unknown; source: string; label: string }[] = [];
+	(loaded.config.customCriteria ?? []).forEach((definition, index) => {
+		entries.push({ definition, source: loaded.source ?? "config", label: `customCriteria[${index}]` });
+	});
+	for (const candidate of CUSTOM_CRITERIA_FILES) {
+		const filePath = path.join(repoRoot, candidate);
+		const text = readText(filePath);
+		if (text === undefined) continue;
+		let data: unknown;
+		try {
+			data = candidate.endsWith(".json") ? JSON.parse(text) : parseYaml(text);
+		} catch (error) {
+			throw new Error(`Invalid custom criteria ${candidate}: ${error instanceof Error ? error.message : String(error)}`);
+		}
+		const list = isRecord(data) ? data.criteria : undefined;
+		if (!Array.isArray(list)) {
+			throw new Error(`Invalid custom criteria ${candidate}: expected a top-level criteria list`);
+		}
+		list.forEach((definition, index) => {
+			entries.push({ definition, source: candidate, label: `criteria[${index}]` });
+		});
+		break;
+	}
+
+	const seen = new Set(builtIn.map((criterion) => criterion.id));
+	const errors: string[] = [];
+	for (const entry of entries) {
+		const entryErrors = validateCustomCriterion(entry.definition, entry.label);
+		if (entryErrors.length === 0) {
+			const id = (entry.definition as CustomCriterionDefinition).id;
+			if (seen.has(id)) entryErrors.push(`${entry.label}.id "${id}" is already defined`);
+			seen.add(id);
+		}
+		errors.push(...entryErrors.map((error) => `${entry.source}: ${error}`));
+	}
+	if (errors.length > 0) {
+		throw new Error(`Invalid custom criteria:\n- ${errors.join("\n- ")}`);
+	}
+	return entries.map((entry) => toCustomCriterion(entry.definition as CustomCriterionDefinition, entry.source));
+};
+
+const rememberRegistration = (data: unknown) => {
+	if (!isRecord(data) || typeof data.source !== "string" || !data.source) return;
+	registeredCriteria.set(data.source, data.criteria);
+};
+
+const validateRegisteredCriterion = (criterion: unknown, label: string): string[] => {
+	if (!isRecord(criterion)) return [`${label} must be an object`];
+	const errors: string[] = [];
+	for (const key of ["id", "category", "title", "recommendation"]) {
+		if (typeof criterion[key] !== "string" || !criterion[key]) {
+			errors.push(`${label}.${key} must be a non-empty string`);
+		}
+	}
+	if (!LEVELS.includes(criterion.level as CriterionLevel)) {
+		errors.push(`${label}.level must be 1-5`);
+	}
+	if (criterion.tier !== undefined && !["BASIC", "INTERMEDIATE", "ADVANCED"].includes(criterion.tier as string)) {
+		errors.push(`${label}.tier must be BASIC, INTERMEDIATE or ADVANCED`);
+	}
+	if (criterion.scope === "repo" && typeof criterion.checkRepo !== "function") {
+		errors.push(`${label}.checkRepo must be a function for repo-scoped criteria`);
+	} else if (criterion.scope === "app" && typeof criterion.checkApp !== "function") {
+		errors.push(`${label}.checkApp must be a function for app-scoped criteria`);
+	} else if (criterion.scope !== "repo" && criterion.scope !== "app") {
+		errors.push(`${label}.scope must be repo or app`);
+	}
+	return errors;
+};
+
+// A throwing check from another extension fails its own criterion instead of aborting the report.
+const guardCheck = <T extends unknown[]>(source: string, check: (...args: T) => CheckResult) => (...args: T) => {
+	try {
+		const result = check(...args);
+		return isRecord(result) && isCheckStatus(result.status)
+			? { status: result.status, details: String(result.details ?? "") }
+			: failResult(`Check from ${source} returned an invalid result`);
+	} catch (error) {
+		return failResult(`Check from ${source} threw: ${error instanceof Error ? error.message : String(error)}`);
+	}
+};
+
+const collectRegisteredCriteria = (pi: ExtensionAPI, existing: Criterion[]) => {
+	pi.events.emit(READINESS_COLLECT_EVENT, {
+		register: (source: string, criteria: Criterion[]) => rememberRegistration({ source, criteria }),
+	});
+
+	const seen = new Set(existing.map((criterion) => criterion.id));
+	const criteria: Criterion[] = [];
+	const warnings: string[] = [];
+	for (const [source, list] of registeredCriteria) {
+		if (!Array.isArray(list)) {
+			warnings.push(`extension ${source}: criteria must be an array`);
+			continue;
+		}
+		list.forEach((candidate: unknown, index) => {
+			const label = `criteria[${index}]`;
+			const errors = validateRegisteredCriterion(candidate, label);
+			const criterion = candidate as Criterion;
+			if (errors.length === 0 && seen.has(criterion.id)) {
+				errors.push(`${label}.id "${criterion.id}" is already defined`);
+			}
+			if (errors.length > 0) {
+				warnings.push(...errors.map((error) => `extension ${source}: ${error} (skipped)`));
+				return;
+			}
+			seen.add(criterion.id);
+			criteria.push({
+				id: criterion.id,
+				category: criterion.category,
+				tier: criterion.tier ?? defaultTierForLevel(criterion.level),
+				level: criterion.level,
+				title: criterion.title,
+				description: criterion.description || criterion.title,
+				recommendation: criterion.recommendation,
+				scope: criterion.scope,
+				customSource: `extension:${source}`,
+				checkRepo: criterion.scope === "repo" && criterion.checkRepo ? guardCheck(source, criterion.checkRepo) : undefined,
+				checkApp: criterion.scope === "app" && criterion.checkApp ? guardCheck(source, criterion.checkApp) : undefined,
+			});
+		});
+	}
+	return { criteria, warnings };
+};
+
 const evaluateCriteria = (criteria: Criterion[], repo: RepoContext): CriterionResult[] => {
 	const results: CriterionResult[] = [];
 	for (const criterion of criteria) {
@@ -1864,6 +4731,122 @@ const evaluateCriteria = (criteria: Criterion[], repo: RepoContext): CriterionRe
 	return results;
 };
 
+const WAIVER_FILES = [
+	path.join(".pi", "readiness-waivers.yaml"),
+	path.join(".pi", "readiness-waivers.yml"),
+	path.join(".pi", "readiness-waivers.json"),
+];
+
+const toDateString = (value: unknown) => {
+	if (value instanceof Date) return Number.isNaN(value.getTime()) ? undefined : value.toISOString().slice(0, 10);
+	if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+	return Number.isNaN(Date.parse(value)) ? undefined : value;
+};
+
+const validateWaiver = (waiver: unknown, label: string): string[] => {
+	if (!isRecord(waiver)) return [`${label} must be an object`];
+	const errors: string[] = [];
+	for (const key of ["id", "justification", "owner"]) {
+		if (typeof waiver[key] !== "string" || !waiver[key]) {
+			errors.push(`${label}.${key} must be a non-empty string`);
+		}
+	}
+	if (waiver.app !== undefined && typeof waiver.app !== "string") {
+		errors.push(`${label}.app must be an app path`);
+	}
+	if (!toDateString(waiver.expires)) {
+		errors.push(`${label}.expires must be a YYYY-MM-DD date`);
+	}
+	return errors;
+};
+
+const loadWaivers = (repoRoot: string): { source?: string; waivers: Waiver[] } => {
+	for (const candidate of WAIVER_FILES) {
+		const text = readText(path.join(repoRoot, candidate));
+		if (text === undefined) continue;
+		let data: unknown;
+		try {
+			data = candidate.endsWith(".json") ? JSON.parse(text) : parseYaml(text);
+		} catch (error) {
+			throw new Error(`Invalid waivers ${candidate}: ${error instanceof Error ? error.message : String(error)}`);
+		}
+		const list = isRecord(data) ? data.waivers : undefined;
+		if (!Array.isArray(list)) {
+			throw new Error(`Invalid waivers ${candidate}: expected a top-level waivers list`);
+		}
+		const errors = list.flatMap((waiver, index) => validateWaiver(waiver, `waivers[${index}]`));
+		if (errors.length > 0) {
+			throw new Error(`Invalid waivers ${candidate}:\n- ${errors.join("\n- ")}`);
+		}
+		const waivers = list.map((waiver: Record<string, unknown>) => ({
+			id: waiver.id as string,
+			app: typeof waiver.app === "string" ? toPosixPath(path.normalize(waiver.app)).replace(/\/$/, "") : undefined,
+			justification: waiver.justification as string,
+			owner: waiver.owner as string,
+			expires: toDateString(waiver.expires) as string,
+		}));
+		return { source: candidate, waivers };
+	}
+	return { waivers: [] };
+};
+
+// Waivers apply to the final verdicts: active ones take failing checks out of the score,
+// expired ones leave the failure counted and are surfaced as "expired waiver".
+const applyWaivers = (results: CriterionResult[], loaded: ReturnType<typeof loadWaivers>, today: string) => {
+	const states: WaiverState[] = loaded.waivers.map((waiver) => ({
+		...waiver,
+		source: loaded.source ?? "waivers",
+		status: waiver.expires < today ? "expired" : "unused",
+	}));
+	const criteria = results.map((result) => {
+		const matching = states.filter((waiver) => waiver.id === result.id);
+		if (matching.length === 0) return result;
+		const coveredBy = (target: string) =>
+			matching.filter(
+				(waiver) => waiver.status !== "expired" && (waiver.app === undefined || (result.scope === "app" && waiver.app === target)),
+			);
+		let waivedAny = false;
+		const reasons = result.reasons.map((reason) => {
+			const covering = reason.status === "fail" ? coveredBy(reason.target) : [];
+			if (covering.length === 0) return reason;
+			waivedAny = true;
+			for (const waiver of covering) waiver.status = "waived";
+			const [waiver] = covering;
+			return {
+				...reason,
+				waived: true,
+				details: `${reason.details} (waived until ${waiver.expires} by ${waiver.owner}: ${waiver.justification})`,
+			};
+		});
+		if (!waivedAny) return { ...result, waivers: matching };
+		const counted = reasons.filter((reason) => reason.status !== "na" && !reason.waived);
+		if (result.scope === "repo" || counted.length === 0) {
+			return { ...result, reasons, numerator: 0, denominator: 0, passed: false, applicable: false, waived: true, waivers: matching };
+		}
+		const numerator = counted.filter((reason) => reason.status === "pass").length;
+		return {
+			...result,
+			reasons,
+			numerator,
+			denominator: counted.length,
+			passed: numerator === counted.length,
+			applicable: true,
+			waivers: matching,
+		} satisfies CriterionResult;
+	});
+	return { criteria, waivers: states };
+};
+
+const hasExpiredWaiver = (item: CriterionResult) =>
+	!item.passed && (item.waivers ?? []).some((waiver) => waiver.status === "expired");
+
+const criterionStatusLabel = (item: CriterionResult, passed: string, failed: string) => {
+	if (item.waived) return "Waived";
+	if (!item.applicable) return "N/A";
+	if (item.passed) return passed;
+	return hasExpiredWaiver(item) ? `${failed} (expired waiver)` : failed;
+};
+
 const computeMaturity = (criteria: CriterionResult[]) => {
 	const applicableCriteria = criteria.filter((item) => item.applicable);
 	const criteriaTotal = applicableCriteria.length;
@@ -1873,7 +4856,7 @@ const computeMaturity = (criteria: CriterionResult[]) => {
 	const passRate = checksTotal ? checksPassed / checksTotal : 0;
 	const score = Math.round(passRate * 100);
 
-	const levelScores = [1, 2, 3, 4, 5].map((level) => {
+	const levelScores = LEVELS.map((level) => {
 		const items = criteria.filter((item) => item.level === level && item.applicable);
 		const total = items.length;
 		const passed = items.filter((item) => item.passed).length;
@@ -1881,14 +4864,10 @@ const computeMaturity = (criteria: CriterionResult[]) => {
 	});
 
 	let levelAchieved = 0;
-	for (const level of [1, 2, 3, 4, 5]) {
-		const items = criteria.filter((item) => item.level === level && item.applicable);
-		if (items.length === 0) continue;
-		if (items.every((item) => item.passed)) {
-			levelAchieved = level;
-		} else {
-			break;
-		}
+	for (const levelScore of levelScores) {
+		if (levelScore.total === 0) continue;
+		if (levelScore.passRate < LEVEL_PASS_THRESHOLD) break;
+		levelAchieved = levelScore.level;
 	}
 
 	return {
@@ -1906,7 +4885,7 @@ const computeMaturity = (criteria: CriterionResult[]) => {
 const buildActionItems = (criteria: CriterionResult[]) => {
 	return criteria
 		.filter((item) => item.applicable && !item.passed)
-		.sort((a, b) => b.level - a.level)
+		.sort((a, b) => a.level - b.level)
 		.slice(0, 3)
 		.map((item) => ({
 			title: item.title,
@@ -1915,10 +4894,204 @@ const buildActionItems = (criteria: CriterionResult[]) => {
 		}));
 };
 
+const checkStatuses: CheckStatus[] = ["pass", "fail", "na"];
+
+const isCheckStatus = (value: unknown): value is CheckStatus => checkStatuses.includes(value as CheckStatus);
+
+const isCount = (value: unknown): value is number => typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => Boolean(value) && typeof value === "object";
+
+const validateAppVerdicts = (criteria: Criterion[], apps: AppInfo[], response: ModelReviewResponse) => {
+	const errors: string[] = [];
+	const scoreMap = new Map(response.criteria.filter(isRecord).map((item) => [item.id, item]));
+	for (const criterion of criteria) {
+		if (criterion.scope !== "app") continue;
+		const score = scoreMap.get(criterion.id);
+		if (!score) continue;
+		const appScores = Array.isArray(score.apps) ? score.apps.filter(isRecord) : [];
+		const covered = new Set(appScores.map((item) => item.path));
+		const missing = apps.filter((app) => !covered.has(app.relativePath)).map((app) => app.relativePath);
+		if (missing.length > 0) {
+			errors.push(`${criterion.id}: missing app verdicts for ${missing.join(", ")}`);
+		}
+		const known = new Set(apps.map((app) => app.relativePath));
+		const unknown = Array.from(covered).filter((item) => !known.has(item));
+		if (unknown.length > 0) {
+			errors.push(`${criterion.id}: verdicts for unknown apps ${unknown.join(", ")}`);
+		}
+	}
+	return errors;
+};
+
+const isLineNumber = (value: unknown): value is number => typeof value === "number" && Number.isInteger(value) && value >= 1;
+
+// Evidence must name an indexed file; line ranges must be positive integers within that file.
+const verifyEvidenceRef = (index: FileIndex, ref: EvidenceRef): VerifiedEvidence => {
+	const target = path.resolve(index.root, ref.path);
+	let verified = isIndexedFile(index, target);
+	if (verified && (ref.startLine !== undefined || ref.endLine !== undefined)) {
+		const content = readIndexedText(index, target) ?? "";
+		const lineCount = content.split("\n").length - (content.endsWith("\n") ? 1 : 0);
+		const endLine = ref.endLine ?? ref.startLine;
+		verified = isLineNumber(ref.startLine) && isLineNumber(endLine) && endLine >= ref.startLine && endLine <= lineCount;
+	}
+	return { ...ref, verified };
+};
+
+const validateEvidence = (index: FileIndex, item: ModelCriterionScore) => {
+	const errors: string[] = [];
+	if (item.evidence !== undefined && !Array.isArray(item.evidence)) {
+		return [`${item.id}: evidence must be an array`];
+	}
+	const refs = (item.evidence ?? []).filter((ref) => isRecord(ref) && typeof ref.path === "string");
+	if (refs.length !== (item.evidence ?? []).length) {
+		errors.push(`${item.id}: evidence entries need a string path`);
+	}
+	if (item.status === "pass" && refs.length === 0) {
+		errors.push(`${item.id}: pass verdicts must cite at least one evidence path`);
+	}
+	for (const ref of refs) {
+		if (!verifyEvidenceRef(index, ref).verified) {
+			const range =
+				ref.startLine !== undefined || ref.endLine !== undefined ? `:${ref.startLine}-${ref.endLine ?? ref.startLine}` : "";
+			errors.push(`${item.id}: evidence ${ref.path}${range} is not a file or line range in the repository`);
+		}
+	}
+	return errors;
+};
+
+const validateModelReview = (criteria: Criterion[], apps: AppInfo[], index: FileIndex, response: ModelReviewResponse) => {
+	const errors: string[] = [];
+	const known = new Set(criteria.map((criterion) => criterion.id));
+	const seen = new Set<string>();
+	response.criteria.forEach((item, position) => {
+		if (!isRecord(item) || typeof item.id !== "string") {
+			errors.push(`criteria[${position}]: entry must be an object with a string id`);
+			return;
+		}
+		if (!known.has(item.id)) {
+			errors.push(`${item.id}: unknown criterion id`);
+			return;
+		}
+		if (seen.has(item.id)) {
+			errors.push(`${item.id}: duplicate entry`);
+		}
+		seen.add(item.id);
+		if (!isCheckStatus(item.status)) {
+			errors.push(`${item.id}: invalid status ${JSON.stringify(item.status)} (expected pass, fail or na)`);
+		}
+		if (item.numerator !== undefined && !isCount(item.numerator)) {
+			errors.push(`${item.id}: numerator must be a non-negative integer`);
+		}
+		if (item.denominator !== undefined && !isCount(item.denominator)) {
+			errors.push(`${item.id}: denominator must be a non-negative integer`);
+		}
+		if (isCount(item.numerator) && isCount(item.denominator) && item.numerator > item.denominator) {
+			errors.push(`${item.id}: numerator ${item.numerator} exceeds denominator ${item.denominator}`);
+		}
+		if (item.status === "na" && isCount(item.denominator) && item.denominator > 0) {
+			errors.push(`${item.id}: status na requires denominator 0`);
+		}
+		errors.push(...validateEvidence(index, item));
+		if (item.apps !== undefined && !Array.isArray(item.apps)) {
+			errors.push(`${item.id}: apps must be an array`);
+		} else {
+			for (const app of item.apps ?? []) {
+				if (!isRecord(app) || typeof app.path !== "string" || !isCheckStatus(app.status)) {
+					errors.push(`${item.id}: app verdicts need a string path and status pass, fail or na`);
+					break;
+				}
+			}
+		}
+	});
+	for (const criterion of criteria) {
+		if (!seen.has(criterion.id)) {
+			errors.push(`${criterion.id}: missing from response`);
+		}
+	}
+	errors.push(...validateAppVerdicts(criteria, apps, response));
+	if (response.levelAchieved !== undefined && !(isCount(response.levelAchieved) && response.levelAchieved >= 1 && response.levelAchieved <= 5)) {
+		errors.push("levelAchieved must be an integer between 1 and 5");
+	}
+	if (response.score !== undefined && !(typeof response.score === "number" && response.score >= 0 && response.score <= 100)) {
+		errors.push("score must be a number between 0 and 100");
+	}
+	if (response.actionItems !== undefined && !Array.isArray(response.actionItems)) {
+		errors.push("actionItems must be an array");
+	}
+	return errors;
+};
+
+// Drops entries that failed validation so mapModelScores falls back to "na" instead of trusting malformed data.
+const sanitizeModelReview = (criteria: Criterion[], response: ModelReviewResponse): ModelReviewResponse => {
+	const known = new Set(criteria.map((criterion) => criterion.id));
+	const seen = new Set<string>();
+	const scores: ModelCriterionScore[] = [];
+	for (const item of response.criteria) {
+		if (!isRecord(item) || !known.has(item.id) || seen.has(item.id) || !isCheckStatus(item.status)) continue;
+		seen.add(item.id);
+		const countsValid =
+			isCount(item.numerator) && isCount(item.denominator) && item.numerator <= item.denominator;
+		scores.push({
+			...item,
+			numerator: countsValid ? item.numerator : undefined,
+			denominator: countsValid ? item.denominator : undefined,
+			evidence: Array.isArray(item.evidence)
+				? item.evidence.filter((ref) => isRecord(ref) && typeof ref.path === "string")
+				: undefined,
+			apps: Array.isArray(item.apps)
+				? item.apps.filter((app) => isRecord(app) && typeof app.path === "string" && isCheckStatus(app.status))
+				: undefined,
+		});
+	}
+	return {
+		...response,
+		criteria: scores,
+		actionItems: Array.isArray(response.actionItems) ? response.actionItems : undefined,
+		levelAchieved:
+			isCount(response.levelAchieved) && response.levelAchieved >= 1 && response.levelAchieved <= 5
+				? response.levelAchieved
+				: undefined,
+		score: typeof response.score === "number" && response.score >= 0 && response.score <= 100 ? response.score : undefined,
+	};
+};
+
+const mapModelAppScores = (criterion: Criterion, report: Report, appScores: ModelAppScore[]) => {
+	const appMap = new Map(appScores.map((item) => [item.path, item]));
+	const reasons = report.apps.map((app) => {
+		const verdict = appMap.get(app.relativePath);
+		return verdict
+			? { target: app.relativePath, status: verdict.status, details: verdict.details ?? "Model score" }
+			: { target: app.relativePath, status: "na" as const, details: "No model verdict for this app" };
+	});
+	const applicableReasons = reasons.filter((reason) => reason.status !== "na");
+	const numerator = applicableReasons.filter((reason) => reason.status === "pass").length;
+	const denominator = applicableReasons.length;
+	return {
+		id: criterion.id,
+		category: criterion.category,
+		tier: criterion.tier,
+		level: criterion.level,
+		title: criterion.title,
+		description: criterion.description,
+		recommendation: criterion.recommendation,
+		scope: criterion.scope,
+		numerator,
+		denominator,
+		passed: denominator > 0 ? numerator === denominator : false,
+		applicable: denominator > 0,
+		reasons,
+	} satisfies CriterionResult;
+};
+
 const mapModelScores = (criteria: Criterion[], report: Report, response: ModelReviewResponse) => {
 	const scoreMap = new Map(response.criteria.map((item) => [item.id, item]));
 	return criteria.map((criterion) => {
 		const score = scoreMap.get(criterion.id);
+		if (criterion.scope === "app" && Array.isArray(score?.apps)) {
+			return mapModelAppScores(criterion, report, score.apps);
+		}
 		const status = score?.status ?? "na";
 		const numerator = typeof score?.numerator === "number" ? score.numerator : status === "pass" ? 1 : 0;
 		const denominator = typeof score?.denominator === "number" ? score.denominator : status === "na" ? 0 : 1;
@@ -1942,6 +5115,88 @@ const mapModelScores = (criteria: Criterion[], report: Report, response: ModelRe
 	});
 };
 
+const resultStatus = (result: CriterionResult): CheckStatus =>
+	result.applicable ? (result.passed ? "pass" : "fail") : "na";
+
+const toVerdict = (result: CriterionResult): CriterionVerdict => ({
+	status: resultStatus(result),
+	numerator: result.numerator,
+	denominator: result.denominator,
+	reasons: result.reasons,
+});
+
+// require-agreement only lets a criterion pass when neither side reports a failure;
+// a pass/na split keeps the heuristic verdict because it is backed by concrete file checks.
+const pickVerdict = (heuristic: CriterionVerdict, model: CriterionVerdict, policy: ReconcilePolicy) => {
+	if (policy === "heuristic-wins") return heuristic;
+	if (policy === "model-wins") return model;
+	if (heuristic.status === model.status) return heuristic;
+	if (model.status === "fail") return model;
+	return heuristic;
+};
+
+const reconcileResults = (heuristicResults: CriterionResult[], modelResults: CriterionResult[], policy: ReconcilePolicy) => {
+	const modelMap = new Map(modelResults.map((item) => [item.id, item]));
+	return heuristicResults.map((result) => {
+		const modelResult = modelMap.get(result.id);
+		if (!modelResult) return result;
+		const heuristic = toVerdict(result);
+		const model = toVerdict(modelResult);
+		const final = pickVerdict(heuristic, model, policy);
+		return {
+			...result,
+			numerator: final.numerator,
+			denominator: final.denominator,
+			passed: final.status === "pass",
+			applicable: final.status !== "na",
+			reasons: final.reasons,
+			verdicts: { heuristic, model },
+			disagreement: heuristic.status !== model.status,
+			evidence: modelResult.evidence,
+			unverifiedPass: modelResult.unverifiedPass,
+		} satisfies CriterionResult;
+	});
+};
+
+const collectDisagreements = (criteria: CriterionResult[]): Disagreement[] =>
+	criteria
+		.filter(
+			(item): item is CriterionResult & Required<Pick<CriterionResult, "verdicts">> =>
+				Boolean(item.disagreement && item.verdicts),
+		)
+		.map((item) => ({
+			id: item.id,
+			title: item.title,
+			heuristic: item.verdicts.heuristic.status,
+			model: item.verdicts.model.status,
+			final: resultStatus(item),
+		}));
+
+// Passes without at least one citation that resolves inside the repo are flagged, and downgraded to fail unless mode is "flag".
+const applyEvidence = (results: CriterionResult[], response: ModelReviewResponse, index: FileIndex, mode: EvidenceMode) => {
+	const scoreMap = new Map(response.criteria.map((item) => [item.id, item]));
+	return results.map((result) => {
+		const evidence = (scoreMap.get(result.id)?.evidence ?? []).map((ref) => verifyEvidenceRef(index, ref));
+		const unverifiedPass =
+			result.reasons.some((reason) => reason.status === "pass") && !evidence.some((ref) => ref.verified);
+		if (!unverifiedPass || mode === "flag") {
+			return { ...result, evidence, unverifiedPass } satisfies CriterionResult;
+		}
+		return {
+			...result,
+			evidence,
+			unverifiedPass,
+			numerator: 0,
+			passed: false,
+			reasons: result.reasons.map((reason) =>
+				reason.status === "pass"
+					? { ...reason, status: "fail" as const, details: `${reason.details} (downgraded: no verified evidence)` }
+					: reason,
+			),
+		} satisfies CriterionResult;
+	});
+};
+
 const computeCategoryStats = (criteria: CriterionResult[]) => {
 	const stats = new Map<string, { passed: number; total: number }>();
 	for (const item of criteria) {
@@ -1960,10 +5215,10 @@ const computeCategoryStats = (criteria: CriterionResult[]) => {
 	}));
 };
 
-const loadHistory = (repoRoot: string) => {
-	const reportsRoot = path.join(repoRoot, ".pi", "reports");
-	if (!fileExists(reportsRoot)) return [] as { generatedAt: string; level: number; score: number }[];
-	const histories: { generatedAt: string; level: number; score: number }[] = [];
+const loadHistory = (repoRoot: string, outputDir = path.join(".pi", "reports")) => {
+	const reportsRoot = path.resolve(repoRoot, outputDir);
+	if (!fileExists(reportsRoot)) return [] as Report["history"];
+	const histories: Report["history"] = [];
 	for (const entry of listFiles(reportsRoot)) {
 		if (!entry.isDirectory()) continue;
 		const reportPath = path.join(reportsRoot, entry.name, "readiness-report.json");
@@ -1975,11 +5230,80 @@ const loadHistory = (repoRoot: string) => {
 			generatedAt: report.generatedAt,
 			level: report.maturity.levelAchieved,
 			score: report.maturity.score,
+			coverage: report.coverage?.lines.percentage,
 		});
 	}
 	return histories.sort((a, b) => new Date(a.generatedAt).getTime() - new Date(b.generatedAt).getTime());
 };
 
+const describeGateThresholds = (gate: GateVerdict) => {
+	const { minLevel, minScore, mustPass, noRegression } = gate.thresholds;
+	const parts = [
+		minLevel !== undefined ? `level ≥ ${minLevel}` : "",
+		minScore !== undefined ? `score ≥ ${minScore}%` : "",
+		mustPass?.length ? `must pass: ${mustPass.join(", ")}` : "",
+		noRegression ? `no regression${gate.previous ? ` vs ${gate.previous.generatedAt}` : " (no previous report)"}` : "",
+	].filter(Boolean);
+	return parts.length ? `Thresholds: ${parts.join("; ")}` : "No thresholds configured";
+};
+
+const evaluateGate = (
+	report: Report,
+	thresholds: GateThresholds,
+	previous?: { generatedAt: string; level: number; score: number },
+): GateVerdict => {
+	const { levelAchieved, score } = report.maturity;
+	const failures: string[] = [];
+	if (thresholds.minLevel !== undefined && levelAchieved < thresholds.minLevel) {
+		failures.push(`Level ${levelAchieved} is below the minimum level ${thresholds.minLevel}`);
+	}
+	if (thresholds.minScore !== undefined && score < thresholds.minScore) {
+		failures.push(`Score ${score}% is below the minimum score ${thresholds.minScore}%`);
+	}
+	for (const id of thresholds.mustPass ?? []) {
+		const item = report.criteria.find((criterion) => criterion.id === id);
+		if (!item) {
+			failures.push(`Must-pass criterion ${id} is not part of this report`);
+		} else if (!item.passed) {
+			const status = item.waived ? "is waived" : item.applicable ? "failed" : "is not applicable";
+			failures.push(`Must-pass criterion ${id} ${status}`);
+		}
+	}
+	if (thresholds.noRegression && previous) {
+		if (levelAchieved < previous.level) {
+			failures.push(`Level regressed from ${previous.level} to ${levelAchieved} since ${previous.generatedAt}`);
+		}
+		if (score < previous.score) {
+			failures.push(`Score regressed from ${previous.score}% to ${score}% since ${previous.generatedAt}`);
+		}
+	}
+	return { passed: failures.length === 0, thresholds, failures, previous: thresholds.noRegression ? previous : undefined };
+};
+
+const escapeHtml = (value: string) =>
+	value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Reason targets and details can carry repo-controlled text (waiver justifications, custom criteria, model output).
+const renderReasonItems = (reasons: CriterionResult["reasons"]) =>
+	reasons.map((reason) => `<li><strong>${escapeHtml(reason.target)}</strong>: ${escapeHtml(reason.details)}</li>`).join("");
+
+const renderEvidenceLinks = (report: Report, item: CriterionResult) => {
+	const evidence = item.evidence ?? [];
+	if (evidence.length === 0 && !item.unverifiedPass) return "";
+	const reportDir = path.dirname(report.paths.html);
+	const links = evidence
+		.map((ref) => {
+			const href = path.relative(reportDir, path.join(report.repoRoot, ref.path)).split(path.sep).join("/");
+			const range = typeof ref.startLine === "number" ? `:${ref.startLine}-${ref.endLine ?? ref.startLine}` : "";
+			const label = escapeHtml(`${ref.path}${range}`);
+			return ref.verified
+				? `<li><a href="${escapeHtml(encodeURI(href))}">${label}</a></li>`
+				: `<li class="na">${label} (not found)</li>`;
+		})
+		.join("");
+	return `<p class="note">Evidence${item.unverifiedPass ? " — pass not backed by verified evidence" : ""}</p><ul>${links}</ul>`;
+};
+
 const renderLevelChart = (history: { generatedAt: string; level: number }[]) => {
 	if (history.length === 0) return "";
 	const width = 620;
@@ -2004,6 +5328,27 @@ const renderLevelChart = (history: { generatedAt: string; level: number }[]) =>
 		</svg>`;
 };
 
+const renderCoverageChart = (history: { generatedAt: string; coverage?: number }[], threshold: number) => {
+	const measured = history.filter((item) => item.coverage !== undefined);
+	if (measured.length === 0) return "";
+	const width = 620;
+	const height = 160;
+	const padding = 24;
+	const toX = (index: number) => padding + (index / Math.max(measured.length - 1, 1)) * (width - padding * 2);
+	const toY = (percentage: number) => height - padding - (percentage / 100) * (height - padding * 2);
+	return `
+		<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="Line coverage over time">
+			<rect x="0" y="0" width="${width}" height="${height}" fill="var(--surface-2)" rx="12" />
+			<line x1="${padding}" y1="${toY(threshold)}" x2="${width - padding}" y2="${toY(threshold)}" stroke="var(--muted)" stroke-dasharray="4 4" />
+			<polyline fill="none" stroke="var(--accent-strong)" stroke-width="3" points="${measured
+				.map((item, index) => `${toX(index)},${toY(item.coverage ?? 0)}`)
+				.join(" ")}" />
+			${measured
+				.map((item, index) => `<circle cx="${toX(index)}" cy="${toY(item.coverage ?? 0)}" r="4" fill="var(--accent)" />`)
+				.join("")}
+		</svg>`;
+};
+
 const renderCategoryChart = (categories: { name: string; passRate: number | null }[]) => {
 	if (categories.length === 0) return "";
 	const width = 620;
@@ -2032,6 +5377,43 @@ const renderCategoryChart = (categories: { name: string; passRate: number | null
 		</svg>`;
 };
 
+const renderLanguageChart = (breakdown: LanguageShare[], maxLanguages = 8) => {
+	const languages = breakdown.slice(0, maxLanguages);
+	if (languages.length === 0) return "";
+	const width = 620;
+	const rowHeight = 26;
+	const padding = 16;
+	const labelWidth = 110;
+	const height = padding * 2 + languages.length * rowHeight;
+	const maxBar = width - padding * 2 - labelWidth - 56;
+	return `
+		<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="Languages by lines of code">
+			<rect x="0" y="0" width="${width}" height="${height}" fill="var(--surface-2)" rx="12" />
+			${languages
+				.map((entry, index) => {
+					const y = padding + index * rowHeight;
+					const barWidth = Math.max((entry.percentage / 100) * maxBar, 2);
+					return `
+						<text x="${padding}" y="${y + 16}" fill="var(--muted)" font-size="11">${entry.language}</text>
+						<rect x="${padding + labelWidth}" y="${y + 4}" width="${barWidth}" height="${rowHeight - 10}" rx="6" fill="var(--accent-strong)" opacity="0.6" />
+						<text x="${padding + labelWidth + barWidth + 8}" y="${y + 16}" fill="var(--text)" font-size="10">${entry.percentage}%</text>
+					`;
+				})
+				.join("")}
+		</svg>`;
+};
+
+const formatAppType = (app: AppInfo) => (app.framework ? `${app.type}: ${app.framework}` : app.type);
+
+const formatLanguageShares = (breakdown: LanguageShare[] | undefined, maxLanguages = 3) =>
+	(breakdown ?? [])
+		.slice(0, maxLanguages)
+		.map((entry) => `${entry.language} ${entry.percentage}%`)
+		.join(", ");
+
+const describeScoringFallback = (fallback: NonNullable<Report["fallback"]>) =>
+	`heuristic fallback (${fallback.model.provider}/${fallback.model.id}: ${fallback.reason})`;
+
 const renderHtml = (report: Report) => {
 	const levelLabels: Record<number, string> = {
 		1: "Functional",
@@ -2043,11 +5425,9 @@ const renderHtml = (report: Report) => {
 
 	const criteriaRows = report.criteria
 		.map((item) => {
-			const status = item.applicable ? (item.passed ? "Passed" : "Needs Work") : "N/A";
+			const status = criterionStatusLabel(item, "Passed", "Needs Work");
 			const statusClass = item.applicable ? (item.passed ? "ok" : "warn") : "na";
-			const reasons = item.reasons
-				.map((reason) => `<li><strong>${reason.target}</strong>: ${reason.details}</li>`)
-				.join("");
+			const reasons = renderReasonItems(item.reasons);
 			return `<tr>
 				<td>${item.category}</td>
 				<td><span class="badge-pill">${item.tier}</span></td>
@@ -2061,7 +5441,7 @@ const renderHtml = (report: Report) => {
 
 	const checklistRows = report.criteria
 		.map((item) => {
-			const status = item.applicable ? (item.passed ? "Completed" : "Needs Work") : "N/A";
+			const status = criterionStatusLabel(item, "Completed", "Needs Work");
 			const statusClass = item.applicable ? (item.passed ? "ok" : "warn") : "na";
 			return `<tr>
 				<td>${item.category}</td>
@@ -2081,11 +5461,11 @@ const renderHtml = (report: Report) => {
 
 	const levelRows = report.maturity.levelScores
 		.map((level) => {
-			const percent = Math.round(level.passRate * 100);
+			const percent = level.total ? `${Math.round(level.passRate * 100)}%` : "N/A";
 			return `<tr>
 				<td>${level.level} - ${levelLabels[level.level]}</td>
 				<td>${level.passed}/${level.total}</td>
-				<td>${percent}%</td>
+				<td>${percent}</td>
 			</tr>`;
 		})
 		.join("");
@@ -2107,14 +5487,76 @@ const renderHtml = (report: Report) => {
 		passRate: category.passRate,
 	})));
 
+	const languageChart = renderLanguageChart(report.languageBreakdown);
+	const languageRows = report.languageBreakdown
+		.map(
+			(entry) =>
+				`<tr><td>${entry.language}</td><td>${entry.files}</td><td>${entry.lines.toLocaleString()}</td><td>${entry.percentage}%</td></tr>`,
+		)
+		.join("");
+
+	const coverageChart = renderCoverageChart(report.history, report.config.settings.coverageThreshold);
+	const coverageRows = report.apps
+		.map((app) => {
+			const coverage = app.coverage;
+			if (!coverage) return `<tr><td>${app.relativePath}</td><td colspan="3">No coverage report found</td></tr>`;
+			return `<tr><td>${app.relativePath}</td><td>${coverage.file} (${coverage.format})</td><td>${coverage.lines.percentage}% (${
+				coverage.lines.covered
+			}/${coverage.lines.total})</td><td>${coverage.branches ? `${coverage.branches.percentage}%` : "N/A"}</td></tr>`;
+		})
+		.join("");
+
+	const strictnessRows = report.apps
+		.filter((app) => app.typescript)
+		.map((app) => {
+			const profile = app.typescript as TypeScriptProfile;
+			const unresolved = profile.unresolved.length ? `<br /><span class="note">Unresolved: ${profile.unresolved.join(", ")}</span>` : "";
+			return `<tr><td>${app.relativePath}</td><td>${profile.chain.join(" → ")}${unresolved}</td><td>${
+				profile.strict ? "Yes" : "No"
+			}</td><td>${describeTypeScriptProfile(profile)}</td></tr>`;
+		})
+		.join("");
+
 	const appsList = report.apps
-		.map((app) => `<li><strong>${app.relativePath}</strong> (${app.type}) — ${app.description ?? "No description"}</li>`)
+		.map((app) => {
+			const languages = formatLanguageShares(app.languages);
+			return `<li><strong>${app.relativePath}</strong> (${formatAppType(app)}, via ${app.source}) — ${app.description ?? "No description"}${
+				languages ? `<br /><span class="note">${languages}</span>` : ""
+			}</li>`;
+		})
 		.join("");
 
 	const actionsList = report.actionItems
 		.map((item) => `<li><strong>Level ${item.level}</strong> — ${item.title}: ${item.recommendation}</li>`)
 		.join("");
 
+	const disagreementRows = (report.reconciliation?.disagreements ?? [])
+		.map((item) => {
+			const criterion = report.criteria.find((entry) => entry.id === item.id);
+			const heuristicDetails = renderReasonItems(criterion?.verdicts?.heuristic.reasons ?? []);
+			const modelDetails = renderReasonItems(criterion?.verdicts?.model.reasons ?? []);
+			return `<tr>
+				<td>${item.title}</td>
+				<td><span class="badge-pill">${item.heuristic}</span><ul>${heuristicDetails}</ul></td>
+				<td><span class="badge-pill">${item.model}</span><ul>${modelDetails}</ul></td>
+				<td><span class="badge-pill">${item.final}</span></td>
+			</tr>`;
+		})
+		.join("");
+
+	const waiverRows = (report.waivers ?? [])
+		.map((waiver) => {
+			const statusClass = waiver.status === "expired" ? "warn" : waiver.status === "waived" ? "ok" : "na";
+			return `<tr>
+				<td>${escapeHtml(waiver.id)}${waiver.app ? ` <span class="note">${escapeHtml(waiver.app)}</span>` : ""}</td>
+				<td>${escapeHtml(waiver.owner)}</td>
+				<td>${waiver.expires}</td>
+				<td class="${statusClass}"><span class="badge-pill">${waiver.status === "expired" ? "expired waiver" : waiver.status}</span></td>
+				<td>${escapeHtml(waiver.justification)}</td>
+			</tr>`;
+		})
+		.join("");
+
 	return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -2213,7 +5655,9 @@ const renderHtml = (report: Report) => {
 				<div class="card">
 					<span class="badge">Readiness Report</span>
 					<h1>${report.repoName}</h1>
-					<p>Generated ${report.generatedAt}${report.model ? ` • Model ${report.model.provider}/${report.model.id}` : ""}</p>
+					<p>Generated ${report.generatedAt}${report.model ? ` • Model ${report.model.provider}/${report.model.id}` : ""}${
+						report.scoringMode === "offline" ? " • Offline (heuristic checks)" : ""
+					}${report.fallback ? ` • ${describeScoringFallback(report.fallback)}` : ""}</p>
 					<div class="grid">
 						<div>
 							<h3>Level Achieved</h3>
@@ -2236,7 +5680,7 @@ const renderHtml = (report: Report) => {
 				</div>
 				<div class="card">
 					<h2>Understanding the Output</h2>
-					<p class="note">Scores are reported as numerator/denominator where numerator is apps passing and denominator is apps evaluated. The report includes Level Achieved, Applications Discovered, Criteria Results, and Action Items.</p>
+					<p class="note">Scores are reported as numerator/denominator where numerator is apps passing and denominator is apps evaluated. A level is achieved when at least ${Math.round(LEVEL_PASS_THRESHOLD * 100)}% of its applicable criteria pass and every lower level is achieved. The report includes Level Achieved, Applications Discovered, Criteria Results, and Action Items.</p>
 				</div>
 				<div class="card">
 					<h2>Action Items</h2>
@@ -2265,6 +5709,48 @@ const renderHtml = (report: Report) => {
 						<tbody>${categoryRows}</tbody>
 					</table>
 				</div>
+				${
+					strictnessRows
+						? `<div class="card">
+					<h2>TypeScript Strictness</h2>
+					<table>
+						<thead>
+							<tr><th>App</th><th>tsconfig chain</th><th>Strict</th><th>Profile</th></tr>
+						</thead>
+						<tbody>${strictnessRows}</tbody>
+					</table>
+				</div>`
+						: ""
+				}
+				<div class="card">
+					<h2>Languages</h2>
+					${languageChart}
+					<table>
+						<thead>
+							<tr><th>Language</th><th>Files</th><th>Lines</th><th>Share</th></tr>
+						</thead>
+						<tbody>${languageRows || '<tr><td colspan="4">No source files recognised</td></tr>'}</tbody>
+					</table>
+				</div>
+				${
+					report.coverage || coverageChart
+						? `<div class="card">
+					<h2>Test Coverage</h2>
+					<p class="note">${
+						report.coverage
+							? `Line coverage ${report.coverage.lines.percentage}% across ${report.coverage.apps} app(s)`
+							: "No coverage reports in this run"
+					}; threshold ${report.config.settings.coverageThreshold}% (dashed line).</p>
+					${coverageChart}
+					<table>
+						<thead>
+							<tr><th>App</th><th>Report</th><th>Lines</th><th>Branches</th></tr>
+						</thead>
+						<tbody>${coverageRows}</tbody>
+					</table>
+				</div>`
+						: ""
+				}
 				<div class="card">
 					<h2>Level Over Time</h2>
 					${levelChart || "<p class=\"note\">No historical reports yet.</p>"}
@@ -2279,17 +5765,16 @@ const renderHtml = (report: Report) => {
 							const items = report.criteria.filter((item) => item.category === category.name);
 							const rows = items
 								.map((item) => {
-									const status = item.applicable ? (item.passed ? "Passed" : "Needs Work") : "N/A";
+									const status = criterionStatusLabel(item, "Passed", "Needs Work");
 									const statusClass = item.applicable ? (item.passed ? "ok" : "warn") : "na";
-									const reasons = item.reasons
-										.map((reason) => `<li><strong>${reason.target}</strong>: ${reason.details}</li>`)
-										.join("");
+									const reasons = renderReasonItems(item.reasons);
 									return `<tr>
+										<td><span class=\"badge-pill\">L${item.level}</span></td>
 										<td><span class=\"badge-pill\">${item.tier}</span></td>
 										<td>${item.title}</td>
 										<td>${formatScore(item.numerator, item.denominator)}</td>
 										<td class=\"${statusClass}\"><span class=\"badge-pill\">${status}</span></td>
-										<td><ul>${reasons}</ul></td>
+										<td><ul>${reasons}</ul>${renderEvidenceLinks(report, item)}</td>
 									</tr>`;
 								})
 								.join("");
@@ -2299,7 +5784,7 @@ const renderHtml = (report: Report) => {
 									<summary><strong>${category.name}</strong> — ${category.passed}/${category.total} (${percent})</summary>
 									<table>
 										<thead>
-											<tr><th>Tier</th><th>Criterion</th><th>Score</th><th>Status</th><th>Details</th></tr>
+											<tr><th>Level</th><th>Tier</th><th>Criterion</th><th>Score</th><th>Status</th><th>Details</th></tr>
 										</thead>
 										<tbody>${rows}</tbody>
 									</table>
@@ -2307,6 +5792,48 @@ const renderHtml = (report: Report) => {
 						})
 						.join("")}
 				</div>
+				${
+					report.reconciliation
+						? `<div class="card">
+					<h2>Disagreements</h2>
+					<p class="note">Criteria where heuristic checks and the model verdict differ. Final status follows the <code>${report.reconciliation.policy}</code> policy.</p>
+					${
+						disagreementRows
+							? `<table>
+						<thead>
+							<tr><th>Criterion</th><th>Heuristic</th><th>Model</th><th>Final</th></tr>
+						</thead>
+						<tbody>${disagreementRows}</tbody>
+					</table>`
+							: "<p class=\"note\">Heuristic checks and model verdicts agree on every criterion.</p>"
+					}
+				</div>`
+						: ""
+				}
+				${
+					waiverRows
+						? `<div class="card">
+					<h2>Waivers</h2>
+					<p class="note">Waived checks are excluded from the score until the waiver expires.</p>
+					<table>
+						<thead>
+							<tr><th>Criterion</th><th>Owner</th><th>Expires</th><th>Status</th><th>Justification</th></tr>
+						</thead>
+						<tbody>${waiverRows}</tbody>
+					</table>
+				</div>`
+						: ""
+				}
+				${
+					report.gate
+						? `<div class="card">
+					<h2>CI Gate</h2>
+					<p class="${report.gate.passed ? "ok" : "warn"}"><span class="badge-pill">${report.gate.passed ? "Passed" : "Failed"}</span></p>
+					<p class="note">${escapeHtml(describeGateThresholds(report.gate))}</p>
+					${report.gate.failures.length ? `<ul>${report.gate.failures.map((failure) => `<li>${escapeHtml(failure)}</li>`).join("")}</ul>` : ""}
+				</div>`
+						: ""
+				}
 				<div class="card">
 					<h2>Completion Advice</h2>
 					<p class="note">Focus on the highest-impact items to reach the next level.</p>
@@ -2342,7 +5869,15 @@ const renderHtml = (report: Report) => {
 				</div>
 			</div>
 		</div>
-		<footer>Sybil Solutions · ${report.model ? `Model ${report.model.provider}/${report.model.id}` : "Model not recorded"}</footer>
+		<footer>Sybil Solutions · ${
+			report.scoringMode === "offline"
+				? "Offline heuristic scoring"
+				: report.scoringMode === "fallback"
+					? "Heuristic fallback scoring"
+					: report.model
+					? `Model ${report.model.provider}/${report.model.id}`
+					: "Model not recorded"
+		}</footer>
 	</div>
 </body>
 </html>`;
@@ -2353,17 +5888,25 @@ const buildModelReviewPrompt = (criteria: Criterion[], report: Report, repoSnaps
 		id: item.id,
 		category: item.category,
 		tier: item.tier,
+		level: item.level,
+		scope: item.scope,
 		title: item.title,
 		description: item.description,
 	}));
 
-	const apps = report.apps.map((app) => ({ path: app.relativePath, type: app.type, description: app.description }));
+	const apps = report.apps.map((app) => ({
+		path: app.relativePath,
+		type: app.type,
+		framework: app.framework,
+		description: app.description,
+		coverage: app.coverage ? describeCoverage(app.coverage) : undefined,
+	}));
 
 	return [
 		"You are reviewing a software repository for readiness.",
 		"Return ONLY valid JSON following this shape:",
 		"{",
-		"  \"criteria\": [{\"id\": string, \"status\": \"pass\"|\"fail\"|\"na\", \"numerator\": number, \"denominator\": number, \"details\": string}],",
+		"  \"criteria\": [{\"id\": string, \"status\": \"pass\"|\"fail\"|\"na\", \"numerator\": number, \"denominator\": number, \"details\": string, \"evidence\": [{\"path\": string, \"startLine\": number, \"endLine\": number}], \"apps\": [{\"path\": string, \"status\": \"pass\"|\"fail\"|\"na\", \"details\": string}]}],",
 		"  \"actionItems\": [{\"title\": string, \"recommendation\": string, \"level\": number}],",
 		"  \"levelAchieved\": number,",
 		"  \"score\": number,",
@@ -2373,6 +5916,9 @@ const buildModelReviewPrompt = (criteria: Criterion[], report: Report, repoSnaps
 		"- Use only data provided.",
 		"- For NA, set denominator=0, numerator=0.",
 		"- For repo-level checks, denominator should be 1.",
+		"- For app-level checks (scope \"app\"), include one apps entry per application path listed below; numerator counts passing apps and denominator counts applicable apps.",
+		"- Omit apps for repo-level checks.",
+		"- Every pass must cite evidence: repo-relative paths of files from the snapshot that prove it. startLine/endLine are optional.",
 		"- narrativeMarkdown must include sections: Executive Summary, Strengths, Gaps, Next Actions.",
 		"Repository snapshot:",
 		repoSnapshot,
@@ -2406,25 +5952,94 @@ const parseModelReview = (text: string): ModelReviewResponse | undefined => {
 	}
 };
 
-const runModelScoring = async (prompt: string, ctx: ExtensionCommandContext, modelRef?: ModelRef) => {
+const buildRepairPrompt = (errors: string[]) =>
+	[
+		"Your previous response did not match the required JSON schema.",
+		"Fix these violations and return the complete corrected JSON object only:",
+		...errors.slice(0, 50).map((error) => `- ${error}`),
+	].join("\n");
+
+// The prompt embeds the repo snapshot, so hashing it with the full criteria definitions and model covers every input.
+const buildScoringCacheKey = (prompt: string, criteria: Criterion[], model: ModelRef) =>
+	createHash("sha256")
+		.update(JSON.stringify({ prompt, criteria, model: `${model.provider}/${model.id}` }))
+		.digest("hex");
+
+// Cache entries are re-parsed from the raw response; anything malformed or not marked valid is treated as a miss.
+const readCachedScoring = (cache: ScoringCache, key: string): CachedScoring | undefined => {
+	const data = readJson(path.join(cache.dir, `${key}.json`));
+	if (!data || data.key !== key || typeof data.raw !== "string" || typeof data.createdAt !== "string") return undefined;
+	const { model, validation } = data;
+	if (!isRecord(model) || typeof model.provider !== "string" || typeof model.id !== "string") return undefined;
+	if (!isRecord(validation) || validation.valid !== true || !isCount(validation.retries)) return undefined;
+	const parsed = parseModelReview(data.raw);
+	if (!parsed) return undefined;
+	return {
+		key,
+		createdAt: data.createdAt,
+		model: { provider: model.provider, id: model.id },
+		parsed,
+		raw: data.raw,
+		validation: { valid: true, retries: validation.retries, errors: [] },
+	};
+};
+
+const writeCachedScoring = (cache: ScoringCache, entry: CachedScoring) => {
+	try {
+		fs.mkdirSync(cache.dir, { recursive: true });
+		fs.writeFileSync(path.join(cache.dir, `${entry.key}.json`), JSON.stringify(entry, null, 2), "utf8");
+	} catch {
+		// caching is best-effort
+	}
+};
+
+const runModelScoring = async (
+	prompt: string,
+	ctx: ExtensionCommandContext,
+	validate: (response: ModelReviewResponse) => string[],
+	maxRetries: number,
+	options: { modelRef?: ModelRef; onProgress?: (state: string) => void; cache?: ScoringCache } = {},
+) => {
+	const { modelRef, onProgress, cache } = options;
 	const modelChoice = modelRef ? ctx.modelRegistry.find(modelRef.provider, modelRef.id) : ctx.model;
 	if (!modelChoice) return undefined;
+
+	const cacheKey = cache
+		? buildScoringCacheKey(prompt, cache.criteria, { provider: modelChoice.provider, id: modelChoice.id })
+		: undefined;
+	if (cache && cacheKey && !cache.refresh) {
+		const hit = readCachedScoring(cache, cacheKey);
+		if (hit?.parsed && validate(hit.parsed).length === 0) {
+			onProgress?.("cached");
+			return { parsed: hit.parsed, raw: hit.raw, model: modelChoice, validation: hit.validation, cached: true };
+		}
+	}
+
 	const apiKey = await ctx.modelRegistry.getApiKey(modelChoice);
 	if (!apiKey) return undefined;
 
+	const setProgress = (state: string) => {
+		if (onProgress) {
+			onProgress(state);
+			return;
+		}
+		if (!ctx.hasUI) return;
+		ctx.ui.setWidget("readiness-report-progress", [
+			`AI scoring: ${state}`,
+			`Model: ${modelChoice.provider}/${modelChoice.id}`,
+			`Prompt size: ${prompt.length.toLocaleString()} chars`,
+		]);
+	};
+
 	if (ctx.hasUI) {
 		ctx.ui.setStatus(
 			"readiness-report",
 			`AI scoring in progress (${modelChoice.provider}/${modelChoice.id})...`,
 		);
-		ctx.ui.setWidget("readiness-report-progress", [
-			"AI scoring: running",
-			`Model: ${modelChoice.provider}/${modelChoice.id}`,
-			`Prompt size: ${prompt.length.toLocaleString()} chars`,
-		]);
 	}
+	setProgress("running");
 
-	const messages = [
+	const messages: Parameters<typeof complete>[1]["messages"] = [
 		{
 			role: "user" as const,
 			content: [{ type: "text" as const, text: prompt }],
@@ -2432,20 +6047,163 @@ const runModelScoring = async (prompt: string, ctx: ExtensionCommandContext, mod
 		},
 	];
 
-	const response = await complete(modelChoice, { messages }, { apiKey, reasoningEffort: "medium" });
-	const responseText = response.content
-		.filter((item): item is { type: "text"; text: string } => item.type === "text")
-		.map((item) => item.text)
-		.join("\n")
-		.trim();
+	// `parsed`, `raw` and `errors` always describe the same attempt: the latest one that parsed, or the last reply
+	// when none did. `repairErrors` is what the next repair prompt reports.
+	let parsed: ModelReviewResponse | undefined;
+	let raw = "";
+	let errors: string[] = [];
+	let repairErrors: string[] = [];
+	let retries = 0;
+	for (let attempt = 0; attempt <= maxRetries; attempt++) {
+		if (attempt > 0) {
+			retries = attempt;
+			setProgress(`repair attempt ${attempt}/${maxRetries} (${repairErrors.length} violations)`);
+			messages.push({
+				role: "user" as const,
+				content: [{ type: "text" as const, text: buildRepairPrompt(repairErrors) }],
+				timestamp: Date.now(),
+			});
+		}
+
+		const response = await complete(modelChoice, { messages }, { apiKey, reasoningEffort: "medium" });
+		messages.push(response);
+		const text = response.content
+			.filter((item): item is { type: "text"; text: string } => item.type === "text")
+			.map((item) => item.text)
+			.join("\n")
+			.trim();
+
+		const candidate = text ? parseModelReview(text) : undefined;
+		if (!candidate) {
+			repairErrors = ["Response was not a JSON object with a criteria array"];
+			if (!parsed) {
+				raw = text;
+				errors = repairErrors;
+			}
+			continue;
+		}
+		parsed = candidate;
+		raw = text;
+		errors = validate(candidate);
+		repairErrors = errors;
+		if (errors.length === 0) break;
+	}
 
-	const parsed = responseText ? parseModelReview(responseText) : undefined;
-	if (!parsed && ctx.hasUI) {
+	const validation: ModelValidation = { valid: errors.length === 0, retries, errors };
+	if (!validation.valid && ctx.hasUI) {
 		ctx.ui.setStatus("readiness-report", "AI scoring response invalid");
-		ctx.ui.notify("AI scoring was not valid JSON", "warning");
+		ctx.ui.notify(`AI scoring failed validation after ${retries} retries (${errors.length} violations)`, "warning");
+	}
+
+	// Only validated responses are cached, so a bad response is retried on the next run instead of replayed.
+	if (cache && cacheKey && parsed && validation.valid) {
+		writeCachedScoring(cache, {
+			key: cacheKey,
+			createdAt: new Date().toISOString(),
+			model: { provider: modelChoice.provider, id: modelChoice.id },
+			parsed,
+			raw,
+			validation,
+		});
 	}
 
-	return parsed ? { parsed, raw: responseText, model: modelChoice } : undefined;
+	return { parsed, raw, model: modelChoice, validation, cached: false };
+};
+
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>) => {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await fn(items[index]);
+		}
+	};
+	await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+	return results;
+};
+
+const runChunkedModelScoring = async (
+	criteria: Criterion[],
+	report: Report,
+	index: FileIndex,
+	workflows: string[],
+	ctx: ExtensionCommandContext,
+	maxRetries: number,
+	concurrency: number,
+	modelRef?: ModelRef,
+	cache?: Omit<ScoringCache, "criteria">,
+) => {
+	const categories = Array.from(new Set(criteria.map((criterion) => criterion.category)));
+	const states = new Map(categories.map((category) => [category, "queued"]));
+	const renderProgress = () => {
+		if (!ctx.hasUI) return;
+		ctx.ui.setWidget("readiness-report-progress", [
+			`AI scoring: ${categories.length} category passes (concurrency ${concurrency})`,
+			...categories.map((category) => `${category}: ${states.get(category)}`),
+		]);
+	};
+	renderProgress();
+
+	const chunks = await mapWithConcurrency(categories, concurrency, async (category) => {
+		const chunkCriteria = criteria.filter((criterion) => criterion.category === category);
+		const snapshot = buildCategorySnapshot(index, category, workflows);
+		const prompt = buildModelReviewPrompt(chunkCriteria, report, snapshot);
+		const outcome = await runModelScoring(
+			prompt,
+			ctx,
+			(response) => validateModelReview(chunkCriteria, report.apps, index, response),
+			maxRetries,
+			{
+				modelRef,
+				onProgress: (state) => {
+					states.set(category, state);
+					renderProgress();
+				},
+				cache: cache ? { ...cache, criteria: chunkCriteria } : undefined,
+			},
+		);
+		states.set(
+			category,
+			!outcome
+				? "no model available"
+				: outcome.cached
+					? "cached"
+					: outcome.validation.valid
+						? "done"
+						: `done (${outcome.validation.errors.length} violations)`,
+		);
+		renderProgress();
+		return { category, prompt, outcome };
+	});
+
+	const outcomes = chunks.flatMap((chunk) => (chunk.outcome ? [{ ...chunk, outcome: chunk.outcome }] : []));
+	if (outcomes.length !== chunks.length || outcomes.length === 0) return undefined;
+
+	const parsedChunks = outcomes.flatMap((chunk) => (chunk.outcome.parsed ? [chunk.outcome.parsed] : []));
+	// Per-chunk levelAchieved/score only describe one category, so the merged review leaves them to computeMaturity.
+	const parsed: ModelReviewResponse | undefined =
+		parsedChunks.length > 0
+			? {
+					criteria: parsedChunks.flatMap((chunk) => chunk.criteria),
+					actionItems: parsedChunks.flatMap((chunk) => (Array.isArray(chunk.actionItems) ? chunk.actionItems : [])),
+				}
+			: undefined;
+
+	return {
+		prompt: outcomes.map((chunk) => `## ${chunk.category}\n${chunk.prompt}`).join("\n\n"),
+		parsed,
+		raw: outcomes.map((chunk) => `## ${chunk.category}\n${chunk.outcome.raw}`).join("\n\n"),
+		model: outcomes[0].outcome.model,
+		cached: outcomes.every((chunk) => chunk.outcome.cached),
+		cacheHits: outcomes.filter((chunk) => chunk.outcome.cached).length,
+		cacheMisses: outcomes.filter((chunk) => !chunk.outcome.cached).length,
+		validation: {
+			valid: outcomes.every((chunk) => chunk.outcome.validation.valid),
+			retries: outcomes.reduce((sum, chunk) => sum + chunk.outcome.validation.retries, 0),
+			errors: outcomes.flatMap((chunk) => chunk.outcome.validation.errors.map((error) => `[${chunk.category}] ${error}`)),
+		} satisfies ModelValidation,
+	};
 };
 
 const buildNarrativePrompt = (report: Report, modelReview: ModelReviewResponse) => {
@@ -2514,12 +6272,21 @@ const buildMarkdownReport = (report: Report, narrative?: string) => {
 	if (report.model) {
 		lines.push(`Model: ${report.model.provider}/${report.model.id}`);
 	}
+	if (report.scoringMode === "offline") {
+		lines.push("Scoring: offline (heuristic checks, no model)");
+	}
+	if (report.fallback) {
+		lines.push(`Scoring: ${describeScoringFallback(report.fallback)}`);
+	}
 	lines.push("");
 	lines.push("## Overview");
 	lines.push(`- Level Achieved: **${report.maturity.levelAchieved} - ${levelLabels[report.maturity.levelAchieved]}**`);
 	lines.push(`- Score: **${report.maturity.score}%** (${report.maturity.checksPassed}/${report.maturity.checksTotal} checks)`);
 	lines.push(`- Languages: ${report.languages.join(", ") || "Unknown"}`);
 	lines.push(`- Applications: ${report.apps.length}`);
+	if (report.coverage) {
+		lines.push(`- Line Coverage: ${report.coverage.lines.percentage}% (${report.coverage.apps} app(s), threshold ${report.coverage.threshold}%)`);
+	}
 	lines.push("");
 
 	if (narrative) {
@@ -2547,16 +6314,69 @@ const buildMarkdownReport = (report: Report, narrative?: string) => {
 		lines.push("- None detected");
 	} else {
 		for (const app of report.apps) {
-			lines.push(`- **${app.relativePath}** (${app.type}) — ${app.description ?? "No description"}`);
+			const languages = formatLanguageShares(app.languages);
+			lines.push(
+				`- **${app.relativePath}** (${formatAppType(app)}, via ${app.source}) — ${app.description ?? "No description"}${
+					languages ? ` (${languages})` : ""
+				}`,
+			);
 		}
 	}
 	lines.push("");
 
+	const typedApps = report.apps.filter((app) => app.typescript);
+	if (typedApps.length > 0) {
+		lines.push("## TypeScript Strictness");
+		lines.push("| App | tsconfig chain | Strict | Profile |");
+		lines.push("| --- | --- | --- | --- |");
+		for (const app of typedApps) {
+			const profile = app.typescript as TypeScriptProfile;
+			lines.push(
+				`| ${app.relativePath} | ${profile.chain.join(" → ")} | ${profile.strict ? "Yes" : "No"} | ${describeTypeScriptProfile(profile)} |`,
+			);
+		}
+		lines.push("");
+	}
+
+	if (report.languageBreakdown.length > 0) {
+		lines.push("## Languages");
+		lines.push("| Language | Files | Lines | Share |");
+		lines.push("| --- | --- | --- | --- |");
+		for (const entry of report.languageBreakdown) {
+			lines.push(`| ${entry.language} | ${entry.files} | ${entry.lines} | ${entry.percentage}% |`);
+		}
+		lines.push("");
+	}
+
+	const coverageHistory = report.history.filter((entry) => entry.coverage !== undefined);
+	if (report.coverage || coverageHistory.length > 0) {
+		lines.push("## Test Coverage");
+		lines.push("| App | Report | Lines | Branches |");
+		lines.push("| --- | --- | --- | --- |");
+		for (const app of report.apps) {
+			const coverage = app.coverage;
+			lines.push(
+				coverage
+					? `| ${app.relativePath} | ${coverage.file} (${coverage.format}) | ${coverage.lines.percentage}% (${coverage.lines.covered}/${
+							coverage.lines.total
+						}) | ${coverage.branches ? `${coverage.branches.percentage}%` : "N/A"} |`
+					: `| ${app.relativePath} | No coverage report found | - | - |`,
+			);
+		}
+		lines.push("");
+		lines.push(`Line coverage over time (threshold ${report.config.settings.coverageThreshold}%):`);
+		for (const entry of coverageHistory) {
+			lines.push(`- ${entry.generatedAt}: ${entry.coverage}%`);
+		}
+		lines.push("");
+	}
+
 	lines.push("## Level Analytics");
 	lines.push("| Level | Criteria Passed | Pass Rate |");
 	lines.push("| --- | --- | --- |");
 	for (const level of report.maturity.levelScores) {
-		lines.push(`| ${level.level} - ${levelLabels[level.level]} | ${level.passed}/${level.total} | ${Math.round(level.passRate * 100)}% |`);
+		const percent = level.total ? `${Math.round(level.passRate * 100)}%` : "N/A";
+		lines.push(`| ${level.level} - ${levelLabels[level.level]} | ${level.passed}/${level.total} | ${percent} |`);
 	}
 	lines.push("");
 
@@ -2580,13 +6400,63 @@ const buildMarkdownReport = (report: Report, narrative?: string) => {
 	lines.push("");
 
 	lines.push("## Criteria Results");
-	lines.push("| Category | Tier | Criterion | Score | Status |");
-	lines.push("| --- | --- | --- | --- | --- |");
+	lines.push("| Category | Level | Tier | Criterion | Score | Status |");
+	lines.push("| --- | --- | --- | --- | --- | --- |");
 	for (const item of report.criteria) {
-		const status = item.applicable ? (item.passed ? "Passed" : "Needs Work") : "N/A";
-		lines.push(`| ${item.category} | ${item.tier} | ${item.title} | ${formatScore(item.numerator, item.denominator)} | ${status} |`);
+		const status = criterionStatusLabel(item, "Passed", "Needs Work");
+		lines.push(
+			`| ${item.category} | ${item.level} | ${item.tier} | ${item.title} | ${formatScore(item.numerator, item.denominator)} | ${status} |`,
+		);
 	}
 	lines.push("");
+	if (report.modelValidation && !report.modelValidation.valid) {
+		lines.push("## Model Response Validation");
+		lines.push(
+			`The model response still violated the schema after ${report.modelValidation.retries} repair attempt(s); invalid entries were ignored.`,
+		);
+		for (const error of report.modelValidation.errors) {
+			lines.push(`- ${error}`);
+		}
+		lines.push("");
+	}
+	if (report.reconciliation) {
+		lines.push("## Disagreements");
+		lines.push(`Final status follows the \`${report.reconciliation.policy}\` policy.`);
+		lines.push("");
+		if (report.reconciliation.disagreements.length === 0) {
+			lines.push("- Heuristic checks and model verdicts agree on every criterion.");
+		} else {
+			lines.push("| Criterion | Heuristic | Model | Final |");
+			lines.push("| --- | --- | --- | --- |");
+			for (const item of report.reconciliation.disagreements) {
+				lines.push(`| ${item.title} | ${item.heuristic} | ${item.model} | ${item.final} |`);
+			}
+		}
+		lines.push("");
+	}
+	if (report.waivers?.length) {
+		lines.push("## Waivers");
+		lines.push("Waived checks are excluded from the score until the waiver expires.");
+		lines.push("");
+		lines.push("| Criterion | App | Owner | Expires | Status | Justification |");
+		lines.push("| --- | --- | --- | --- | --- | --- |");
+		for (const waiver of report.waivers) {
+			const status = waiver.status === "expired" ? "expired waiver" : waiver.status;
+			lines.push(
+				`| ${waiver.id} | ${waiver.app ?? "—"} | ${waiver.owner} | ${waiver.expires} | ${status} | ${waiver.justification} |`,
+			);
+		}
+		lines.push("");
+	}
+	if (report.gate) {
+		lines.push("## CI Gate");
+		lines.push(`**${report.gate.passed ? "Passed" : "Failed"}** — ${describeGateThresholds(report.gate)}`);
+		lines.push("");
+		for (const failure of report.gate.failures) {
+			lines.push(`- ${failure}`);
+		}
+		if (report.gate.failures.length > 0) lines.push("");
+	}
 	lines.push("## Completion Advice");
 	if (report.actionItems.length === 0) {
 		lines.push("- All criteria passed.");
@@ -2600,7 +6470,7 @@ const buildMarkdownReport = (report: Report, narrative?: string) => {
 	lines.push("| Category | Tier | Criterion | Status | Recommendation |");
 	lines.push("| --- | --- | --- | --- | --- |");
 	for (const item of report.criteria) {
-		const status = item.applicable ? (item.passed ? "Completed" : "Needs Work") : "N/A";
+		const status = criterionStatusLabel(item, "Completed", "Needs Work");
 		lines.push(`| ${item.category} | ${item.tier} | ${item.title} | ${status} | ${item.recommendation} |`);
 	}
 	lines.push("");
@@ -2630,6 +6500,12 @@ const formatReportText = (report: Report) => {
 	if (report.model) {
 		lines.push(`Model: ${report.model.provider}/${report.model.id}`);
 	}
+	if (report.scoringMode === "offline") {
+		lines.push("Scoring: offline (heuristic checks, no model)");
+	}
+	if (report.fallback) {
+		lines.push(`Scoring: ${describeScoringFallback(report.fallback)}`);
+	}
 	lines.push("");
 	lines.push("Level Achieved:");
 	lines.push(`- ${report.maturity.levelAchieved}`);
@@ -2639,13 +6515,13 @@ const formatReportText = (report: Report) => {
 		lines.push("- None detected");
 	} else {
 		for (const app of report.apps) {
-			lines.push(`- ${app.relativePath} (${app.type}) — ${app.description ?? "No description"}`);
+			lines.push(`- ${app.relativePath} (${formatAppType(app)}) — ${app.description ?? "No description"}`);
 		}
 	}
 	lines.push("");
 	lines.push("Criteria Results:");
 	for (const item of report.criteria) {
-		const status = item.applicable ? (item.passed ? "✓" : "✗") : "N/A";
+		const status = criterionStatusLabel(item, "✓", "✗");
 		lines.push(`- [${item.category}] ${item.tier} ${item.title}: ${formatScore(item.numerator, item.denominator)} ${status}`);
 	}
 	lines.push("(Score = numerator/denominator where numerator is apps passing; denominator is apps evaluated)");
@@ -2675,6 +6551,31 @@ const formatReportText = (report: Report) => {
 	lines.push("");
 	lines.push(`Score: ${report.maturity.score}% (${report.maturity.checksPassed}/${report.maturity.checksTotal} checks)`);
 	lines.push(`Languages: ${report.languages.join(", ") || "Unknown"}`);
+	if (report.coverage) {
+		lines.push(`Line coverage: ${report.coverage.lines.percentage}% (threshold ${report.coverage.threshold}%)`);
+	}
+	if (report.modelValidation && !report.modelValidation.valid) {
+		lines.push(`Model validation: ${report.modelValidation.errors.length} violation(s) after ${report.modelValidation.retries} retries`);
+	}
+	if (report.reconciliation) {
+		lines.push(
+			`Disagreements: ${report.reconciliation.disagreements.length} (policy: ${report.reconciliation.policy})`,
+		);
+	}
+	if (report.waivers?.length) {
+		const waived = report.waivers.filter((waiver) => waiver.status === "waived").length;
+		const expired = report.waivers.filter((waiver) => waiver.status === "expired");
+		lines.push(`Waivers: ${waived} active, ${expired.length} expired`);
+		for (const waiver of expired) {
+			lines.push(`- expired waiver: ${waiver.id}${waiver.app ? ` (${waiver.app})` : ""} — ${waiver.owner}, expired ${waiver.expires}`);
+		}
+	}
+	if (report.gate) {
+		lines.push(`Gate: ${report.gate.passed ? "PASSED" : "FAILED"}`);
+		for (const failure of report.gate.failures) {
+			lines.push(`- ${failure}`);
+		}
+	}
 	lines.push("");
 	lines.push(`HTML report: ${report.paths.html}`);
 	lines.push(`Markdown report: ${report.paths.md}`);
@@ -2699,29 +6600,60 @@ const buildReport = async (pi: ExtensionAPI, ctx: ExtensionCommandContext, args:
 	const repoRoot = await getRepoRoot(pi, ctx);
 	const repoName = path.basename(repoRoot);
 
+	setStatus("Loading readiness config...");
+	const loadedConfig = loadReadinessConfig(repoRoot);
+
+	setStatus("Indexing repository files...");
+	const index = await buildFileIndex(pi, repoRoot, loadedConfig.config.defaults?.outputDir ?? path.join(".pi", "reports"));
+
 	setStatus("Detecting languages...");
-	const languages = detectLanguages(repoRoot);
+	const measuredLanguages = measureLanguages(index);
+	const languageBreakdown = summarizeLanguages(measuredLanguages, index.files);
+	const languages = detectLanguages(index, languageBreakdown);
 	setProgress([`Languages: ${languages.length ? languages.join(", ") : "Unknown"}`]);
 
 	setStatus("Discovering applications...");
-	const apps = discoverApps(repoRoot);
+	const apps = discoverApps(repoRoot, index);
+	for (const app of apps) {
+		app.languages = summarizeLanguages(measuredLanguages, relativeIndexFiles(index, app.path));
+		app.lint = resolveLintConfigs(index, app.path, app.languages.map((entry) => entry.language));
+		app.typescript = resolveTypeScriptProfile(index, app.path);
+	}
 	setProgress([
 		`Languages: ${languages.length ? languages.join(", ") : "Unknown"}`,
 		`Apps discovered: ${apps.length}`,
 	]);
 
 	setStatus("Scanning repository files...");
-	const files = getRepoFiles(repoRoot);
-	const workflows = getWorkflowFiles(repoRoot);
-	const readme = readText(path.join(repoRoot, "README.md"));
+	const files = getRepoFiles(index);
+	const workflows = getWorkflowFiles(index);
+	const ciWorkflows = parseWorkflows(index, workflows);
+	const readme = readIndexedText(index, path.join(repoRoot, "README.md"));
+
+	const builtInCriteria = buildCriteria();
+	const declaredCriteria = [...builtInCriteria, ...loadCustomCriteria(repoRoot, loadedConfig, builtInCriteria)];
+	const registered = collectRegisteredCriteria(pi, declaredCriteria);
+	const availableCriteria = [...declaredCriteria, ...registered.criteria];
+	const config = resolveConfig(loadedConfig, args, availableCriteria);
+	config.warnings.push(...registered.warnings);
+	for (const workflow of ciWorkflows.filter((item) => item.error)) {
+		config.warnings.push(`${workflow.file}: could not parse workflow (${workflow.error})`);
+	}
+	const loadedWaivers = loadWaivers(repoRoot);
+	const knownIds = new Set(availableCriteria.map((criterion) => criterion.id));
+	for (const waiver of loadedWaivers.waivers.filter((item) => !knownIds.has(item.id))) {
+		config.warnings.push(`${loadedWaivers.source}: waiver for unknown criterion "${waiver.id}"`);
+	}
+	const { policy, evidence: evidenceMode, chunked, concurrency, refresh } = config.settings;
+	const maxRetries = config.settings.retries;
+	const offline = config.settings.scoringMode === "offline";
+	const reportsRoot = path.resolve(repoRoot, config.settings.outputDir);
+	const cacheDir = path.join(reportsRoot, ".cache");
+	if (config.warnings.length > 0 && ctx.hasUI) {
+		ctx.ui.notify(`Readiness config warnings: ${config.warnings.join("; ")}`, "warning");
+	}
 
-	setStatus("Building repo snapshot for AI review...");
-	const repoSnapshot = buildRepoSnapshot(repoRoot);
-	setProgress([
-		`Languages: ${languages.length ? languages.join(", ") : "Unknown"}`,
-		`Apps discovered: ${apps.length}`,
-		`Snapshot size: ${repoSnapshot.length.toLocaleString()} chars`,
-	]);
+	const coverage = resolveCoverage(apps, repoRoot, config.settings.coverageThreshold);
 
 	const repoContext: RepoContext = {
 		root: repoRoot,
@@ -2730,11 +6662,16 @@ const buildReport = async (pi: ExtensionAPI, ctx: ExtensionCommandContext, args:
 		apps,
 		files,
 		workflows,
+		ciWorkflows,
 		readme,
+		index,
+		coverageThreshold: config.settings.coverageThreshold,
 	};
 
 	setStatus("Evaluating criteria...");
-	const criteria = buildCriteria();
+	const criteria = applyCriteriaOverrides(availableCriteria, config.criteria);
+	// Criteria marked N/A in config keep their heuristic N/A verdict and are never sent to the model.
+	const modelCriteria = criteria.filter((criterion) => criterion.naReason === undefined);
 	const baselineResults = evaluateCriteria(criteria, repoContext);
 	setProgress([
 		`Languages: ${languages.length ? languages.join(", ") : "Unknown"}`,
@@ -2744,13 +6681,15 @@ const buildReport = async (pi: ExtensionAPI, ctx: ExtensionCommandContext, args:
 
 	const generatedAt = new Date().toISOString();
 	const timestamp = generatedAt.replace(/[:.]/g, "-");
-	const reportDir = path.join(repoRoot, ".pi", "reports", `readiness-report-${timestamp}`);
+	const reportDir = path.join(reportsRoot, `readiness-report-${timestamp}`);
 	fs.mkdirSync(reportDir, { recursive: true });
 	const htmlPath = path.join(reportDir, "readiness-report.html");
 	const jsonPath = path.join(reportDir, "readiness-report.json");
 	const mdPath = path.join(reportDir, "readiness-report.md");
 
-	let results = baselineResults;
+	const today = generatedAt.slice(0, 10);
+	const baselineWaivers = applyWaivers(baselineResults, loadedWaivers, today);
+	let results = baselineWaivers.criteria;
 	let maturity = computeMaturity(results);
 	let actionItems = buildActionItems(results);
 
@@ -2759,71 +6698,163 @@ const buildReport = async (pi: ExtensionAPI, ctx: ExtensionCommandContext, args:
 		repoRoot,
 		repoName,
 		languages,
+		languageBreakdown,
 		apps,
+		scoringMode: config.settings.scoringMode,
+		scan: index.scan,
+		coverage,
 		maturity,
 		categories: [],
 		history: [],
 		criteria: results,
 		actionItems,
 		paths: { html: htmlPath, json: jsonPath, md: mdPath },
+		config,
+		waivers: loadedWaivers.source ? baselineWaivers.waivers : undefined,
 	};
 
-	setStatus("Preparing AI prompt...");
-	const prompt = buildModelReviewPrompt(criteria, report, repoSnapshot);
-	report.aiPrompt = prompt;
-
-	const modelRef = resolveModelRef(ctx, args);
-	if (modelRef) {
-		const model = ctx.modelRegistry.find(modelRef.provider, modelRef.id);
-		if (model) {
-			const switched = await pi.setModel(model);
-			if (switched && ctx.hasUI) {
-				ctx.ui.notify(`Model set to ${modelRef.provider}/${modelRef.id}`, "info");
-			}
-			if (switched) {
-				report.model = { provider: modelRef.provider, id: modelRef.id };
+	let modelReview: ModelReviewResponse | undefined;
+	let modelRaw = "";
+	if (offline) {
+		setStatus("Offline mode: scoring from heuristic checks...");
+		setProgress([
+			`Languages: ${languages.length ? languages.join(", ") : "Unknown"}`,
+			`Apps discovered: ${apps.length}`,
+			"AI scoring: skipped (offline)",
+		]);
+	} else {
+		const modelRef = resolveModelRef(ctx, args, config.settings.model);
+		if (modelRef) {
+			const model = ctx.modelRegistry.find(modelRef.provider, modelRef.id);
+			if (model) {
+				const switched = await pi.setModel(model);
+				if (switched && ctx.hasUI) {
+					ctx.ui.notify(`Model set to ${modelRef.provider}/${modelRef.id}`, "info");
+				}
+				if (switched) {
+					report.model = { provider: modelRef.provider, id: modelRef.id };
+				}
 			}
 		}
-	}
-	if (!report.model && ctx.model) {
-		report.model = { provider: ctx.model.provider, id: ctx.model.id };
-	}
+		if (!report.model && ctx.model) {
+			report.model = { provider: ctx.model.provider, id: ctx.model.id };
+		}
 
-	setStatus("Running AI scoring... (model JSON)");
-	setProgress([
-		`Languages: ${languages.length ? languages.join(", ") : "Unknown"}`,
-		`Apps discovered: ${apps.length}`,
-		`AI scoring: prompt sent (${prompt.length.toLocaleString()} chars)`,
-	]);
-	const modelReview = await runModelScoring(prompt, ctx, modelRef);
-	if (!modelReview) {
-		throw new Error("AI scoring did not return valid JSON. Please retry.");
-	}
-	if (modelReview.model) {
-		report.model = { provider: modelReview.model.provider, id: modelReview.model.id };
+		let scoring: Awaited<ReturnType<typeof runModelScoring>>;
+		if (chunked) {
+			setStatus("Running AI scoring per category... (model JSON)");
+			const chunkedScoring = await runChunkedModelScoring(
+				modelCriteria,
+				report,
+				index,
+				workflows,
+				ctx,
+				maxRetries,
+				concurrency,
+				modelRef,
+				{ dir: cacheDir, refresh },
+			);
+			report.aiPrompt = chunkedScoring?.prompt;
+			if (chunkedScoring) {
+				report.modelCache = { hits: chunkedScoring.cacheHits, misses: chunkedScoring.cacheMisses, refreshed: refresh };
+			}
+			scoring = chunkedScoring;
+		} else {
+			setStatus("Building repo snapshot for AI review...");
+			const repoSnapshot = buildRepoSnapshot(index);
+			setProgress([
+				`Languages: ${languages.length ? languages.join(", ") : "Unknown"}`,
+				`Apps discovered: ${apps.length}`,
+				`Snapshot size: ${repoSnapshot.length.toLocaleString()} chars`,
+			]);
+
+			setStatus("Preparing AI prompt...");
+			const prompt = buildModelReviewPrompt(modelCriteria, report, repoSnapshot);
+			report.aiPrompt = prompt;
+
+			setStatus("Running AI scoring... (model JSON)");
+			setProgress([
+				`Languages: ${languages.length ? languages.join(", ") : "Unknown"}`,
+				`Apps discovered: ${apps.length}`,
+				`AI scoring: prompt sent (${prompt.length.toLocaleString()} chars)`,
+			]);
+			scoring = await runModelScoring(
+				prompt,
+				ctx,
+				(response) => validateModelReview(modelCriteria, apps, index, response),
+				maxRetries,
+				{ modelRef, cache: { dir: cacheDir, refresh, criteria: modelCriteria } },
+			);
+			if (scoring) {
+				report.modelCache = { hits: scoring.cached ? 1 : 0, misses: scoring.cached ? 0 : 1, refreshed: refresh };
+			}
+		}
+		if (!scoring) {
+			throw new Error("No model with an API key is available for AI scoring. Select a model, or use --offline for heuristic scoring.");
+		}
+		report.model = { provider: scoring.model.provider, id: scoring.model.id };
+		report.modelValidation = scoring.validation;
+		modelRaw = scoring.raw;
+		modelReview = scoring.parsed ? sanitizeModelReview(modelCriteria, scoring.parsed) : undefined;
+
+		if (!modelReview) {
+			// The report states the fallback itself, so headless runs without a UI still show it.
+			report.scoringMode = "fallback";
+			report.fallback = { model: report.model, reason: "AI scoring returned no usable JSON" };
+			report.model = undefined;
+			if (ctx.hasUI) {
+				ctx.ui.notify("AI scoring returned no usable JSON; falling back to heuristic checks", "warning");
+			}
+		} else {
+			const modelResults = applyEvidence(
+				mapModelScores(modelCriteria, report, modelReview),
+				modelReview,
+				index,
+				evidenceMode,
+			);
+			const finalWaivers = applyWaivers(reconcileResults(baselineResults, modelResults, policy), loadedWaivers, today);
+			results = finalWaivers.criteria;
+			maturity = computeMaturity(results);
+			if (report.waivers) report.waivers = finalWaivers.waivers;
+			// The model scores without knowledge of waivers, so its overall level and score only apply when none took effect.
+			const modelWins = policy === "model-wins" && !finalWaivers.waivers.some((waiver) => waiver.status === "waived");
+			actionItems = modelWins && modelReview.actionItems?.length ? modelReview.actionItems : buildActionItems(results);
+
+			report.criteria = results;
+			report.maturity = modelWins
+				? {
+						...maturity,
+						levelAchieved: modelReview.levelAchieved ?? maturity.levelAchieved,
+						score: modelReview.score ?? maturity.score,
+					}
+				: maturity;
+			report.actionItems = actionItems;
+			report.reconciliation = { policy, disagreements: collectDisagreements(results) };
+		}
 	}
 
-	results = mapModelScores(criteria, report, modelReview.parsed);
-	maturity = computeMaturity(results);
-	actionItems = modelReview.parsed.actionItems?.length ? modelReview.parsed.actionItems : buildActionItems(results);
-
-	report.criteria = results;
-	report.maturity = {
-		...maturity,
-		levelAchieved: modelReview.parsed.levelAchieved ?? maturity.levelAchieved,
-		score: modelReview.parsed.score ?? maturity.score,
-	};
-	report.actionItems = actionItems;
 	report.categories = computeCategoryStats(results);
-	report.history = loadHistory(repoRoot);
-	report.history.push({ generatedAt, level: report.maturity.levelAchieved, score: report.maturity.score });
+	report.history = loadHistory(repoRoot, config.settings.outputDir);
+	const previous = report.history[report.history.length - 1];
+	report.history.push({
+		generatedAt,
+		level: report.maturity.levelAchieved,
+		score: report.maturity.score,
+		coverage: report.coverage?.lines.percentage,
+	});
+	if (config.settings.gate) {
+		report.gate = evaluateGate(report, config.settings.gate, previous);
+	}
 
-	const narrativePrompt = buildNarrativePrompt(report, modelReview.parsed);
-	const narrative = await requestNarrative(pi, narrativePrompt, ctx);
+	let narrative: string | undefined;
+	if (modelReview) {
+		const narrativePrompt = buildNarrativePrompt(report, modelReview);
+		narrative = (await requestNarrative(pi, narrativePrompt, ctx)) ?? modelReview.narrativeMarkdown ?? modelRaw;
+	}
 
 	setStatus("Rendering reports...");
 	const html = renderHtml(report);
-	const markdown = buildMarkdownReport(report, narrative ?? modelReview.parsed.narrativeMarkdown ?? modelReview.raw);
+	const markdown = buildMarkdownReport(report, narrative);
 	fs.writeFileSync(htmlPath, html, "utf8");
 	fs.writeFileSync(mdPath, markdown, "utf8");
 	fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2), "utf8");
@@ -2832,6 +6863,8 @@ const buildReport = async (pi: ExtensionAPI, ctx: ExtensionCommandContext, args:
 };
 
 export default function (pi: ExtensionAPI) {
+	pi.events.on(READINESS_REGISTER_EVENT, rememberRegistration);
+
 	pi.on("session_start", async (_event, ctx) => {
 		if (ctx.model) {
 			lastSelectedModel = { provider: ctx.model.provider, id: ctx.model.id };
@@ -2874,6 +6907,11 @@ export default function (pi: ExtensionAPI) {
 					ctx.ui.notify(`Readiness report saved to ${report.paths.html}`, "success");
 					ctx.ui.setStatus("readiness-report", "Report ready");
 				}
+				// The gate verdict travels in the message (text and details); only the headless CLI sets an exit code.
+				if (report.gate && !report.gate.passed && ctx.hasUI) {
+					ctx.ui.notify(`Readiness gate failed: ${report.gate.failures.join("; ")}`, "error");
+					ctx.ui.setStatus("readiness-report", "Gate failed");
+				}
 			} catch (error) {
 				if (ctx.hasUI) {
 					ctx.ui.notify("Failed to generate readiness report", "error");
@@ -2884,3 +6922,99 @@ export default function (pi: ExtensionAPI) {
 		},
 	});
 }
+
+const HEADLESS_USAGE = [
+	"Usage: node readiness-report.js [--root <dir>] [--format text|json|markdown|html] [report options]",
+	"Report options are the same as for /readiness-report, e.g. --offline, model=provider/id, --gate min-level=3.",
+].join("\n");
+
+const HEADLESS_FORMATS = ["text", "json", "markdown", "html"] as const;
+
+type HeadlessFormat = (typeof HEADLESS_FORMATS)[number];
+
+// Headless runs reuse buildReport with just enough of the extension API and command context:
+// git and history work as usual, models resolve through pi's auth storage, and there is no UI or agent session.
+const runHeadless = async (argv: string[]) => {
+	let root = process.cwd();
+	let format: HeadlessFormat = "text";
+	const reportArgs: string[] = [];
+	for (let index = 0; index < argv.length; index++) {
+		const token = argv[index];
+		if (token === "--help" || token === "-h") {
+			console.log(HEADLESS_USAGE);
+			return 0;
+		}
+		if (token === "--root" || token === "--format") {
+			const value = argv[++index];
+			if (!value) throw new Error(`${token} requires a value\n${HEADLESS_USAGE}`);
+			if (token === "--root") root = path.resolve(value);
+			else format = value as HeadlessFormat;
+			continue;
+		}
+		reportArgs.push(token);
+	}
+	if (!HEADLESS_FORMATS.includes(format)) {
+		throw new Error(`Invalid format "${format}". Use ${HEADLESS_FORMATS.join(", ")}.`);
+	}
+	if (!fileExists(root)) {
+		throw new Error(`Repository root not found: ${root}`);
+	}
+
+	const events = createEventBus();
+	const headlessPi = {
+		events,
+		exec: async (command: string, commandArgs: string[], options?: ExecOptions) => {
+			const result = spawnSync(command, commandArgs, { cwd: options?.cwd ?? root, encoding: "utf8", timeout: options?.timeout });
+			return { stdout: result.stdout ?? "", stderr: result.stderr ?? "", code: result.status ?? 1, killed: result.signal !== null };
+		},
+		setModel: async () => true,
+		sendUserMessage: () => {},
+	} as unknown as ExtensionAPI;
+	const headlessCtx = {
+		hasUI: false,
+		cwd: root,
+		model: undefined,
+		modelRegistry: new ModelRegistry(new AuthStorage()),
+		isIdle: () => true,
+		waitForIdle: async () => {},
+		sessionManager: { getEntries: () => [] },
+	} as unknown as ExtensionCommandContext;
+
+	const report = await buildReport(headlessPi, headlessCtx, reportArgs.join(" "));
+	// Config warnings are otherwise only shown through ctx.ui; stderr keeps them out of the report on stdout.
+	for (const warning of report.config.warnings) {
+		console.error(`Readiness config warning: ${warning}`);
+	}
+	const output =
+		format === "json"
+			? JSON.stringify(report, null, 2)
+			: format === "markdown"
+				? fs.readFileSync(report.paths.md, "utf8")
+				: format === "html"
+					? fs.readFileSync(report.paths.html, "utf8")
+					: formatReportText(report);
+	process.stdout.write(`${output}\n`);
+	return report.gate && !report.gate.passed ? 1 : 0;
+};
+
+const isMainModule = () => {
+	const entry = process.argv[1];
+	if (!entry) return false;
+	try {
+		return import.meta.url === pathToFileURL(fs.realpathSync(entry)).href;
+	} catch {
+		return false;
+	}
+};
+
+if (isMainModule()) {
+	runHeadless(process.argv.slice(2)).then(
+		(code) => {
+			process.exitCode = code;
+		},
+		(error) => {
+			console.error(error instanceof Error ? error.message : String(error));
+			process.exitCode = 2;
+		},
+	);
+}